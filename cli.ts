@@ -0,0 +1,41 @@
+// Replay a scenario file and write its cap table log and dilution chart (and optionally an HTML report)
+//
+// Usage: npm run scenario -- <scenario.json|scenario.yaml> [--plot out.png] [--log out.txt] [--report out.html] [--width 1600]
+import fs from 'fs';
+import path from 'path';
+import { loadScenario, runScenario, ScenarioError } from "./src/scenario.js";
+
+const args = process.argv.slice(2);
+const file = args.find(a => !a.startsWith('--'));
+const flag = (name: string): string | undefined => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+if (!file) {
+  console.error('Usage: npm run scenario -- <scenario.json|scenario.yaml> [--plot out.png] [--log out.txt] [--report out.html] [--width 1600]');
+  process.exit(1);
+}
+
+// Outputs default to files named after the scenario
+const base = path.join(path.dirname(file), path.basename(file, path.extname(file)));
+const plotPath = flag('plot') ?? `${base}.png`;
+const logPath = flag('log') ?? `${base}.txt`;
+const reportPath = flag('report');
+const width = Number(flag('width') ?? 1600);
+
+try {
+  const company = runScenario(loadScenario(file));
+  fs.writeFileSync(logPath, company.formatEquity() + '\n');
+  console.log(`Cap table log saved to ${logPath}`);
+  company.plot(plotPath, width);
+  if (reportPath) {
+    company.report(reportPath, path.basename(file));
+  }
+} catch (e) {
+  if (e instanceof ScenarioError) {
+    console.error(`Invalid scenario ${file}: ${e.message}`);
+    process.exit(1);
+  }
+  throw e;
+}
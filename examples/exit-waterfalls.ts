@@ -0,0 +1,47 @@
+// Worked examples of exit waterfalls with options and warrants: a grant shares in the proceeds
+// only when it is in the money, pays its exercise price in, and keeps its share less that price.
+//
+// Usage: npm run verify:exits
+import { Company } from "../src/Company.js";
+
+let failures = 0;
+
+const check = (label: string, actual: number, expected: number, tolerance = 0) => {
+    const ok = Math.abs(actual - expected) <= tolerance;
+    if (!ok) failures++;
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}: ${actual} (expected ${expected})`);
+};
+
+// 1) At $20M the $30 grant is underwater and left out, so 950,000 shares split $20M plus the
+//    $50,000 the $1 grant pays in, and that grant keeps its share less the $50,000
+{
+    const c = new Company({
+        founders: [{ name: 'Founder', ownership: 90 }],
+        pools: [{ note: 'Option Pool', ownership: 10 }]
+    }, 1_000_000)
+        .grantOptions('Employee A', 50_000, { strikePrice: 1, grantDate: '2024-01-01' })
+        .grantOptions('Employee B', 50_000, { strikePrice: 30, grantDate: '2024-01-01' });
+    const payouts = c.exit(20_000_000).payouts;
+    const payoutOf = (name: string) => payouts.find(p => p.name === name)!.total;
+    check('in-the-money option payout', payoutOf('Employee A (Options)'), 50_000 * (20_050_000 / 950_000 - 1), 1e-6);
+    check('underwater option payout', payoutOf('Employee B (Options)'), 0);
+    check('exit proceeds fully paid out', payouts.reduce((sum, p) => sum + p.total, 0), 20_000_000, 1e-6);
+}
+
+// 2) A warrant for 100,000 shares at $5 is in the money at $20M: 1.1M shares split $20.5M,
+//    and the warrant keeps its share less the $500,000 it pays in
+{
+    const c = new Company({ founders: [{ name: 'Founder', ownership: 100 }] }, 1_000_000)
+        .issueWarrant('Lender', { shares: 100_000, exercisePrice: 5, expiryDate: '2030-01-01' });
+    const payouts = c.exit(20_000_000).payouts;
+    const payoutOf = (name: string) => payouts.find(p => p.name === name)!.total;
+    check('warrant payout', payoutOf('Lender (Warrant)'), 100_000 * (20_500_000 / 1_100_000) - 500_000, 1e-6);
+    check('founder payout', payoutOf('Founder'), 1_000_000 * (20_500_000 / 1_100_000), 1e-6);
+    check('exit proceeds fully paid out', payouts.reduce((sum, p) => sum + p.total, 0), 20_000_000, 1e-6);
+}
+
+if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+}
+console.log('All exit waterfall examples match');
@@ -0,0 +1,85 @@
+// Worked examples of SAFE conversion, following the definitions in the YC Post-Money Safe
+// User Guide: a capped post-money SAFE owns (purchase amount ÷ post-money cap) of the company
+// capitalization immediately before the round, whatever order the SAFEs were signed in.
+//
+// Usage: npm run verify:safes
+import { Company } from "../src/Company.js";
+
+let failures = 0;
+
+const check = (label: string, actual: number, expected: number, tolerance = 0) => {
+    const ok = Math.abs(actual - expected) <= tolerance;
+    if (!ok) failures++;
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}: ${actual} (expected ${expected})`);
+};
+
+const conversionOf = (company: Company, name: string) =>
+    company.getConversions().find(c => c.name === name)!;
+
+// 1) One $1M SAFE at a $10M post-money cap owns 10%: 9M existing shares become a
+//    10M share capitalization, 1M of them the SAFE's
+{
+    const c = new Company({ founders: [{ name: 'Founder', ownership: 100 }] }, 9_000_000)
+        .signSafe(10_000_000, 1_000_000, 'Investor A')
+        .pricedRound(40_000_000, 8_000_000, 'Series A');
+    const a = conversionOf(c, 'Investor A');
+    check('single SAFE shares', a.shares, 1_000_000);
+    check('single SAFE capitalization', Math.round(a.capitalization!), 10_000_000);
+    check('single SAFE ownership of capitalization %', (a.shares / a.capitalization!) * 100, 10, 1e-6);
+}
+
+// 2) $1M at a $10M cap and $500K at a $5M cap each own 10%, so 8M founder shares are 80%.
+//    Signing order must not change the result.
+for (const order of [['A', 'B'], ['B', 'A']]) {
+    const c = new Company({ founders: [{ name: 'Founder', ownership: 100 }] }, 8_000_000);
+    order.forEach(name => name === 'A' ?
+        c.signSafe(10_000_000, 1_000_000, 'Investor A') :
+        c.signSafe(5_000_000, 500_000, 'Investor B'));
+    c.pricedRound(40_000_000, 8_000_000, 'Series A');
+    check(`two SAFEs (${order.join(' then ')}) Investor A shares`, conversionOf(c, 'Investor A').shares, 1_000_000);
+    check(`two SAFEs (${order.join(' then ')}) Investor B shares`, conversionOf(c, 'Investor B').shares, 1_000_000);
+}
+
+// 3) The existing pool counts towards the capitalization, but a pool increase made for
+//    the round does not dilute the post-money SAFE
+{
+    const c = new Company({
+        founders: [{ name: 'Founder', ownership: 90 }],
+        pools: [{ note: 'Option Pool', ownership: 10 }]
+    }, 9_000_000)
+        .signSafe(10_000_000, 1_000_000, 'Investor A')
+        .pricedRound(40_000_000, 8_000_000, 'Series A', { targetPoolPercent: 20 });
+    check('SAFE shares with a pool top-up', conversionOf(c, 'Investor A').shares, 1_000_000);
+}
+
+// 4) When the discounted round price is below the cap price, the discount wins:
+//    $1M at 80% of a $2.00 round price is 625,000 shares
+{
+    const c = new Company({ founders: [{ name: 'Founder', ownership: 100 }] }, 9_000_000)
+        .signSafe(100_000_000, 1_000_000, 'Investor A', 20)
+        .pricedRound(18_000_000, 4_000_000, 'Series A');
+    const a = conversionOf(c, 'Investor A');
+    check('discount SAFE method is discount', a.method === 'discount' ? 1 : 0, 1);
+    check('discount SAFE shares', a.shares, 625_000);
+}
+
+// 5) A pre-money SAFE converts on a pre-money basis: its cap is divided by the existing
+//    shares plus the pool increase, excluding the new money and other converting SAFEs
+{
+    const c = new Company({ founders: [{ name: 'Founder', ownership: 100 }] }, 9_000_000)
+        .signSafe(9_000_000, 1_000_000, 'Investor A', undefined, 'pre-money')
+        .signSafe(10_000_000, 1_000_000, 'Investor B')
+        .pricedRound(40_000_000, 8_000_000, 'Series A');
+    const a = conversionOf(c, 'Investor A');
+    check('pre-money SAFE capitalization', a.capitalization!, 9_000_000);
+    check('pre-money SAFE shares', a.shares, 1_000_000);
+    // The post-money SAFE's capitalization includes the pre-money SAFE's shares
+    const b = conversionOf(c, 'Investor B');
+    check('post-money SAFE alongside it shares', b.shares, 1_111_111);
+}
+
+if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+}
+console.log('All SAFE examples match');
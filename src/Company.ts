@@ -1,15 +1,107 @@
 // Define types for the Company class
-import {EquitySnapshot, ShareType, Safe, CapTableEntry, CompanyConfig, SafeType} from './types.js';
-import { plotEquityDilution } from './visualization.js';
+import {AntiDilution, EquitySnapshot, ShareType, Safe, CapTableEntry, CompanyConfig, SafeType, ExitOptions, ExitWaterfall, ShareClass, ShareClassTerms, PricedRoundOptions, OptionGrant, OptionGrantTerms, OptionPoolStatus, ConvertibleNote, NoteOptions, InstrumentConversion, ConversionMethod, ConversionAuditEntry, LiquidityEventType, SafeClaim, TransferOptions, RepurchaseOptions, Warrant, WarrantTerms, ExerciseTranche, OwnershipBasis, Stakeholder, StakeholderRef, StakeholderRole, HolderSummary, CompanyState, RoundingPolicy, RoundingRecord, Reconciliation, VestingSchedule, RestrictedStock, VestingStatus, DepartureOptions, AccelerationTrigger, SafeRights, ProRataOptions, BoardSeat, BoardChange, Electorate, ProtectiveProvision, VotingAnalysis} from './types.js';
+import { plotControl, plotEquityDilution, plotExitWaterfall, plotOwnershipOverTime, plotOwnershipPies } from './visualization.js';
+import { ChartFormat } from './renderers.js';
+import { computeExitWaterfall } from './waterfall.js';
+import { writeHtmlReport } from './report.js';
+import { parseLedgerCsv, writeCsv, writeXlsx } from './spreadsheet.js';
+import { analyzeVoting, formatVoting } from './voting.js';
+import { ownershipBases } from './dilution.js';
+import { conversionAmount } from './notes.js';
+import { addMonths } from './dates.js';
+import { vestedShares, vestingDates } from './vesting.js';
+import { Fraction, ROUNDING_POLICIES, roundShares } from './arithmetic.js';
+import { CapTableError, ValidationError, assertBoolean, assertCap, assertDate, assertNonNegative, assertPercent, assertPositive, assertStrings, assertWholeShares } from './errors.js';
+
+// Terms of a plain class with no preference over common
+const COMMON_TERMS: ShareClassTerms = {
+    liquidationMultiple: 0,
+    participating: true,
+    conversionRatio: 1,
+    seniority: 0,
+    antiDilution: 'none'
+};
+
+// Standard 1x non-participating, pari passu preferred terms with broad-based weighted average anti-dilution
+const PREFERRED_TERMS: ShareClassTerms = {
+    liquidationMultiple: 1,
+    participating: false,
+    conversionRatio: 1,
+    seniority: 0,
+    antiDilution: 'broad-based'
+};
+
+// Holders on the inside, whose stock an outside investment must not silently roll into
+const INSIDER_ROLES: StakeholderRole[] = ['founder', 'employee', 'pool'];
+
+const ANTI_DILUTION: AntiDilution[] = ['none', 'broad-based', 'full-ratchet'];
+
+// Shares a SAFE or note receives when it converts in a priced round, and how they were worked out.
+// The amount is the purchase amount, or principal plus accrued interest for notes.
+interface Conversion extends Omit<InstrumentConversion, 'round' | 'shareClass'> {
+    instrument: Safe | ConvertibleNote;
+    label: 'SAFE' | 'Note';
+    exact: Fraction;      // Exact share entitlement, before rounding
+    exactPrice: Fraction; // Exact conversion price
+}
+
+// Founder stock or an option grant seen through its vesting schedule
+type VestingHolding =
+    | { kind: 'stock'; name: string; holderId: string; shares: number; startDate: string; record: RestrictedStock }
+    | { kind: 'options'; name: string; holderId: string; shares: number; startDate: string; record: OptionGrant };
+
+// Classes used when shares are issued by type rather than in a priced round
+const DEFAULT_CLASS_NAMES: Record<ShareType, string> = {
+    common: 'Common',
+    option: 'Options',
+    preferred: 'Preferred',
+    warrant: 'Warrants'
+};
+
+// Default role of a ledger holder, by the type of shares held
+const LEDGER_ROLES: Record<ShareType, StakeholderRole> = {
+    common: 'founder',
+    option: 'pool',
+    preferred: 'fund',
+    warrant: 'fund'
+};
+
+/**
+ * Share type a ledger class name implies, e.g. "Series Seed Preferred" or "2024 Option Pool"
+ */
+const ledgerShareType = (shareClass: string): ShareType =>
+    /warrant/i.test(shareClass) ? 'warrant' :
+    /option|pool|plan/i.test(shareClass) ? 'option' :
+    /preferred|series/i.test(shareClass) ? 'preferred' : 'common';
+
+// Bumped whenever the shape of CompanyState changes
+export const COMPANY_SCHEMA_VERSION = 6;
 
 export class Company {
     private shareCounter: number;
     private capTable: CapTableEntry[];
     private totalShares: number;
     private safes: Safe[];
+    private notes: ConvertibleNote[] = [];
     private history: EquitySnapshot[] = [];
+    private shareClasses: ShareClass[] = [];
+    private optionGrants: OptionGrant[] = [];
+    private stakeholders: Stakeholder[] = [];
+    private warrants: Warrant[] = [];
+    private sharePrice?: number; // Latest priced round price, for treasury-method dilution
+    private rounding: RoundingPolicy;
+    private roundingLog: RoundingRecord[] = [];
+    private pendingRounding: Omit<RoundingRecord, 'label'>[] = []; // Labelled by the next snapshot
+    private restrictedStock: RestrictedStock[] = [];
+    private changeOfControl?: { label: string; date?: string }; // First trigger of double-trigger acceleration
+    private closed?: { event: LiquidityEventType; label: string; date?: string }; // Acquisition or dissolution that ended the company
+    private board: BoardSeat[] = [];
+    private rounds: string[] = []; // Names of priced rounds so far
 
-    constructor({ founders = [], pools = [] }: CompanyConfig, initialShareCount: number = 1_000_000) {
+    constructor({ founders = [], pools = [], rounding = 'half-up', formationDate, ledger = [], boardSeats }: CompanyConfig, initialShareCount: number = 1_000_000) {
+        Company._validateConfig({ founders, pools, rounding, formationDate, ledger, boardSeats }, initialShareCount);
+        this.rounding = rounding;
+        
         // Initialize cap table with founders and option pools
         this.shareCounter = 0;
         this.capTable = [];
@@ -19,39 +111,410 @@ export class Company {
         const base = initialShareCount;
         // Add founders
         founders.forEach(f => {
-            const shares = Math.round((f.ownership / 100) * base);
-            this._addEntity(f.name, shares, 'common');
+            const holder = this._registerHolder(f.name, { id: f.id }, 'founder');
+            const shares = this._roundShares(f.name, Fraction.from(f.ownership).div(100).times(base));
+            this._addEntity(f.name, shares, this._defaultClass('common'), holder.id);
+            if (f.vesting) {
+                this.restrictedStock.push({
+                    name: f.name,
+                    holderId: holder.id,
+                    shares,
+                    vesting: f.vesting,
+                    startDate: f.vesting.startDate ?? formationDate!,
+                    acceleratedShares: 0,
+                    repurchased: 0
+                });
+            }
         });
         // Add option pools
         pools.forEach(p => {
-            const shares = Math.round((p.ownership / 100) * base);
-            this._addEntity(p.note, shares, 'option');
+            const holder = this._registerHolder(p.note, { id: p.id }, 'pool');
+            const shares = this._roundShares(p.note, Fraction.from(p.ownership).div(100).times(base));
+            this._addEntity(p.note, shares, this._defaultClass('option'), holder.id);
+        });
+        // Or start from a ledger of existing holdings, one row per holder and class
+        ledger.forEach(entry => {
+            const type = entry.type ?? ledgerShareType(entry.shareClass);
+            const holder = this._registerHolder(entry.holder, { id: entry.id, role: entry.role }, LEDGER_ROLES[type]);
+            const shareClass = this._addShareClass({
+                name: entry.shareClass,
+                type,
+                originalIssuePrice: entry.issuePrice ?? 0,
+                ...(type === 'preferred' ? PREFERRED_TERMS : COMMON_TERMS)
+            });
+            const invested = entry.issuePrice ? entry.shares * entry.issuePrice : undefined;
+            const row = this.capTable.find(e => e.name === entry.holder && e.shareClass === shareClass.name);
+            if (row) {
+                row.shares += entry.shares;
+                row.invested = invested === undefined ? row.invested : (row.invested ?? 0) + invested;
+                this.totalShares += entry.shares;
+            } else {
+                this._addEntity(entry.holder, entry.shares, shareClass, holder.id, invested);
+            }
+            if (type === 'preferred' && entry.issuePrice) {
+                this.sharePrice = entry.issuePrice; // Ledgers run oldest first, so the last price is the latest round
+            }
         });
         this.safes = []; // track SAFEs
+        if (this.totalShares <= 0) {
+            throw new ValidationError('initialShareCount', initialShareCount, 'is too small to issue any shares at the given ownership');
+        }
+        // The common stock elects the board until investors get seats
+        const commonSeats = boardSeats ?? this.stakeholders.filter(h => h.role === 'founder').length;
+        this._changeBoard('common', commonSeats);
         
         // Add initial state to history
-        this._saveSnapshot('Initial Cap Table');
+        this._saveSnapshot('Initial Cap Table', formationDate);
+    }
+
+    /**
+     * Reject ownership that cannot be issued: no founders, zero or negative stakes, over 100% in total,
+     * or holders with empty or duplicate names
+     */
+    private static _validateConfig({ founders = [], pools = [], rounding, formationDate, ledger = [], boardSeats }: CompanyConfig, initialShareCount: number): void {
+        assertPositive('initialShareCount', initialShareCount);
+        if (boardSeats !== undefined && !(Number.isSafeInteger(boardSeats) && boardSeats >= 0)) {
+            throw new ValidationError('boardSeats', boardSeats, 'must be a whole number of seats, zero or more');
+        }
+        if (ledger.length > 0 && (founders.length > 0 || pools.length > 0)) {
+            throw new ValidationError('ledger', ledger.length, 'cannot be combined with founder and pool percentages');
+        }
+        const classTypes = new Map<string, ShareType>();
+        ledger.forEach((entry, i) => {
+            const field = `ledger[${i}]`;
+            if (typeof entry.holder !== 'string' || entry.holder.trim() === '') {
+                throw new ValidationError(`${field}.holder`, entry.holder, 'must be a non-empty string');
+            }
+            if (typeof entry.shareClass !== 'string' || entry.shareClass.trim() === '') {
+                throw new ValidationError(`${field}.shareClass`, entry.shareClass, 'must be a non-empty string');
+            }
+            assertWholeShares(`${field}.shares`, entry.shares);
+            if (entry.issuePrice !== undefined) {
+                assertNonNegative(`${field}.issuePrice`, entry.issuePrice);
+            }
+            const type = entry.type ?? ledgerShareType(entry.shareClass);
+            if (!['common', 'preferred', 'option'].includes(type)) {
+                throw new ValidationError(`${field}.type`, type, 'must be common, preferred or option (issue warrants with issueWarrant)');
+            }
+            const known = classTypes.get(entry.shareClass);
+            if (known !== undefined && known !== type) {
+                throw new ValidationError(`${field}.type`, type, `conflicts with ${known} shares in ${entry.shareClass} on an earlier line`);
+            }
+            classTypes.set(entry.shareClass, type);
+        });
+        if (rounding !== undefined && !ROUNDING_POLICIES.includes(rounding)) {
+            throw new ValidationError('rounding', rounding, `must be one of ${ROUNDING_POLICIES.map(r => `"${r}"`).join(', ')}`);
+        }
+        if (formationDate !== undefined) {
+            assertDate('formationDate', formationDate);
+        }
+        founders.forEach((f, i) => {
+            if (!f.vesting) return;
+            Company._validateVesting(`founders[${i}].vesting`, f.vesting);
+            if (f.vesting.startDate === undefined && formationDate === undefined) {
+                throw new ValidationError(`founders[${i}].vesting.startDate`, undefined, 'is required without a formationDate');
+            }
+        });
+        const names = new Set<string>();
+        const holders = [
+            ...founders.map((f, i) => ({ field: `founders[${i}]`, name: f.name, ownership: f.ownership })),
+            ...pools.map((p, i) => ({ field: `pools[${i}]`, name: p.note, ownership: p.ownership }))
+        ];
+        holders.forEach(({ field, name, ownership }) => {
+            const nameField = `${field}.${field.startsWith('pools') ? 'note' : 'name'}`;
+            if (typeof name !== 'string' || name.trim() === '') {
+                throw new ValidationError(nameField, name, 'must be a non-empty string');
+            }
+            assertPositive(`${field}.ownership`, ownership);
+            if (names.has(name)) {
+                throw new ValidationError(nameField, name, 'duplicates another founder or pool');
+            }
+            names.add(name);
+        });
+        if (founders.length === 0 && ledger.length === 0) {
+            throw new ValidationError('founders', founders.length, 'must include at least one founder (or start from a ledger)');
+        }
+        const total = holders.reduce((sum, h) => sum + h.ownership, 0);
+        if (total > 100) {
+            throw new ValidationError('ownership', total, 'founder and pool ownership must not sum to more than 100');
+        }
+    }
+
+    /**
+     * Reject a vesting schedule that cannot run: a negative period, a cliff past its end, or bad acceleration terms
+     */
+    private static _validateVesting(field: string, vesting: VestingSchedule): void {
+        assertNonNegative(`${field}.months`, vesting.months);
+        assertNonNegative(`${field}.cliffMonths`, vesting.cliffMonths);
+        if (vesting.cliffMonths > vesting.months) {
+            throw new ValidationError(`${field}.cliffMonths`, vesting.cliffMonths, `must not be longer than the ${vesting.months} month vesting period`);
+        }
+        if (vesting.startDate !== undefined) {
+            assertDate(`${field}.startDate`, vesting.startDate);
+        }
+        const { acceleration } = vesting;
+        if (acceleration && acceleration.trigger !== 'single' && acceleration.trigger !== 'double') {
+            throw new ValidationError(`${field}.acceleration.trigger`, acceleration.trigger, 'must be "single" or "double"');
+        }
+        if (acceleration?.percent !== undefined && !(acceleration.percent > 0 && acceleration.percent <= 100)) {
+            throw new ValidationError(`${field}.acceleration.percent`, acceleration.percent, 'must be above 0 and at most 100');
+        }
+    }
+
+    /**
+     * Whole shares for an exact entitlement under the rounding policy, recording what was rounded away
+     * @param name Row the shares are issued to
+     * @param exact Exact number of shares the holder is entitled to
+     * @param price Price per share, to value a fraction that is cashed out
+     */
+    private _roundShares(name: string, exact: Fraction, price?: Fraction): number {
+        const shares = roundShares(exact, this.rounding);
+        this._recordRounding(name, exact, shares, price);
+        return shares;
+    }
+
+    /**
+     * Record the difference between an exact entitlement and the whole shares issued for it
+     */
+    private _recordRounding(name: string, exact: Fraction, shares: number, price?: Fraction): void {
+        const fraction = exact.minus(shares);
+        if (fraction.isZero()) {
+            return;
+        }
+        const record: Omit<RoundingRecord, 'label'> = {
+            name,
+            exactShares: exact.toNumber(),
+            shares,
+            remainder: -fraction.toNumber()
+        };
+        if (this.rounding === 'cash-out' && price) {
+            record.cashOut = fraction.times(price).toNumber();
+        }
+        this.pendingRounding.push(record);
     }
 
-    private _addEntity(name: string, shares: number, type: ShareType = 'common'): void {
-        this.capTable.push({ name, shares, type });
+    private _addEntity(name: string, shares: number, shareClass: ShareClass, holderId: string, invested?: number): void {
+        this.capTable.push({ name, shares, type: shareClass.type, shareClass: shareClass.name, holderId, invested });
         this.totalShares += shares;
     }
 
+    /**
+     * Look up or register the stakeholder behind an issuance, so that the same
+     * holder's grants, SAFEs and round participation roll up to one id
+     * @param name Display name of the holder
+     * @param ref Explicit id and role, if any
+     * @param defaultRole Role to use for a new holder when none is given
+     * @param investor Whether the holder invests from outside, so that a name matching a founder,
+     * employee or pool is taken as a clash rather than that insider investing
+     */
+    private _registerHolder(name: string, ref: StakeholderRef = {}, defaultRole: StakeholderRole, investor: boolean = false): Stakeholder {
+        if (typeof name !== 'string' || name.trim() === '') {
+            throw new ValidationError('name', name, 'must not be empty');
+        }
+        const id = ref.id ?? this._holderSlug(name);
+        const existing = this.stakeholders.find(h => h.id === id);
+        if (existing && ref.id === undefined && existing.name !== name) {
+            throw new ValidationError('name', name, `resolves to the holder id "${id}" of "${existing.name}" (pass an explicit id to keep them apart)`);
+        }
+        if (investor) {
+            this._assertNotInsider('name', name, ref);
+        }
+        if (existing) {
+            if (ref.role) {
+                existing.role = ref.role;
+            }
+            return existing;
+        }
+        const holder: Stakeholder = { id, name, role: ref.role ?? defaultRole };
+        this.stakeholders.push(holder);
+        return holder;
+    }
+
+    /**
+     * Id derived from a holder's name: its letters and digits in any script, lowercased and joined
+     * by hyphens, or a numbered id (the same one each time) when the name has none
+     */
+    private _holderSlug(name: string): string {
+        const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+        if (slug) {
+            return slug;
+        }
+        const named = this.stakeholders.find(h => h.name === name);
+        if (named) {
+            return named.id;
+        }
+        let n = this.stakeholders.length + 1;
+        while (this.stakeholders.some(h => h.id === `holder-${n}`)) {
+            n++;
+        }
+        return `holder-${n}`;
+    }
+
+    /**
+     * Reject an outside investment whose name, without an explicit id, resolves to a founder, employee or pool
+     * @param field Field the name was given in
+     * @param name Name of the investor
+     * @param ref Explicit id and role, if any
+     */
+    private _assertNotInsider(field: string, name: string, ref: StakeholderRef = {}): void {
+        const existing = ref.id === undefined ? this.stakeholders.find(h => h.id === this._holderSlug(name)) : undefined;
+        if (existing && INSIDER_ROLES.includes(existing.role)) {
+            throw new ValidationError(field, name, `is the name of the ${existing.role} "${existing.name}" (rename it, or pass an explicit holder id: a new one to keep them apart, theirs to invest as them)`);
+        }
+    }
+
+    /**
+     * Register a share class, or return the existing one with the same name and terms
+     */
+    private _addShareClass(shareClass: ShareClass): ShareClass {
+        const existing = this.shareClasses.find(c => c.name === shareClass.name);
+        if (existing) {
+            const differing = (Object.keys({ ...existing, ...shareClass }) as (keyof ShareClass)[])
+                .filter(key => JSON.stringify(existing[key]) !== JSON.stringify(shareClass[key]));
+            if (differing.length > 0) {
+                throw new ValidationError('name', shareClass.name, `is already a share class with a different ${differing.join(', ')}`);
+            }
+            return existing;
+        }
+        this.shareClasses.push(shareClass);
+        return shareClass;
+    }
+
+    /**
+     * Class used for shares issued by type outside of a priced round
+     */
+    private _defaultClass(type: ShareType): ShareClass {
+        // Reused as is, even after anti-dilution or a split has adjusted its terms
+        return this.shareClasses.find(c => c.name === DEFAULT_CLASS_NAMES[type]) ?? this._addShareClass({
+            name: DEFAULT_CLASS_NAMES[type],
+            type,
+            originalIssuePrice: 0,
+            ...(type === 'preferred' ? PREFERRED_TERMS : COMMON_TERMS)
+        });
+    }
+
+    /**
+     * Shadow series for SAFEs converting below the round price, e.g. "Series A-1 Preferred"
+     */
+    private _shadowClass(roundClass: ShareClass, price: number): ShareClass {
+        if (price === roundClass.originalIssuePrice) {
+            return roundClass;
+        }
+        const base = roundClass.name.replace(/ Preferred$/, '');
+        const suffix = base === roundClass.name ? '' : ' Preferred';
+        const shadows = this.shareClasses.filter(c => c.name.startsWith(`${base}-`));
+        const existing = shadows.find(c => c.originalIssuePrice === price);
+        if (existing) {
+            return existing;
+        }
+        return this._addShareClass({
+            ...roundClass,
+            name: `${base}-${shadows.length + 1}${suffix}`,
+            originalIssuePrice: price
+        });
+    }
+
+    private _holder(id: string): Stakeholder {
+        return this.stakeholders.find(h => h.id === id)!;
+    }
+
+    /**
+     * Shares actually issued, excluding the option pool and outstanding options
+     */
+    private _issuedShares(): number {
+        return this.capTable
+            .filter(entry => !this._isExercisable(entry))
+            .reduce((sum, entry) => sum + this._asConverted(entry), 0);
+    }
+
+    /**
+     * Options and warrants, which count towards fully diluted but not issued shares
+     */
+    private _isExercisable(entry: CapTableEntry): boolean {
+        return entry.type === 'option' || entry.type === 'warrant';
+    }
+
+    /**
+     * Outstanding options or warrants behind a row, with their exercise prices
+     */
+    private _tranches(entry: CapTableEntry): ExerciseTranche[] | undefined {
+        if (entry.type === 'warrant') {
+            return this.warrants
+                .filter(w => `${w.name} (Warrant)` === entry.name && !w.exercised && !w.expired)
+                .map(w => ({ shares: w.shares, exercisePrice: w.exercisePrice }));
+        }
+        if (entry.pool) {
+            return this.optionGrants
+                .filter(g => `${g.employee} (Options)` === entry.name && g.pool === entry.pool && this._grantOutstanding(g) > 0)
+                .map(g => ({ shares: this._grantOutstanding(g), exercisePrice: g.strikePrice }));
+        }
+        return undefined;
+    }
+
+    /**
+     * Common shares an entry converts into under its class's current conversion ratio
+     */
+    private _asConverted(entry: CapTableEntry): number {
+        const shareClass = this.shareClasses.find(c => c.name === entry.shareClass);
+        return Math.round(entry.shares * (shareClass?.conversionRatio ?? 1));
+    }
+
+    /**
+     * Option pool rows holding unallocated options (as opposed to granted options)
+     */
+    private _pools(): CapTableEntry[] {
+        return this.capTable.filter(entry => entry.type === 'option' && !entry.pool);
+    }
+
     /**
      * Save current state of cap table to history
+     * @param label Description of the event
+     * @param date ISO date of the event, if known
      */
-    private _saveSnapshot(label: string): void {
+    private _saveSnapshot(label: string, date?: string): void {
+        const reconciliation = this.reconcile();
+        if (!reconciliation.ok) {
+            throw new CapTableError(`Cap table does not reconcile after ${label}: ${reconciliation.problems.join('; ')}`);
+        }
+        this.roundingLog.push(...this.pendingRounding.map(r => ({ label, ...r })));
+        this.pendingRounding = [];
+        
+        const issuedShares = this._issuedShares();
         const snapshot: EquitySnapshot = {
             label,
+            date,
             entries: this.capTable.map(entry => ({
                 name: entry.name,
                 shares: entry.shares,
                 type: entry.type,
-                percentage: (entry.shares / this.totalShares) * 100
+                shareClass: entry.shareClass,
+                holderId: entry.holderId,
+                role: this._holder(entry.holderId).role,
+                asConvertedShares: this._asConverted(entry),
+                percentage: (this._asConverted(entry) / this.totalShares) * 100,
+                issuedPercentage: this._isExercisable(entry) ? 0 : (this._asConverted(entry) / issuedShares) * 100,
+                treasuryShares: 0,
+                treasuryPercentage: 0,
+                tranches: this._tranches(entry),
+                invested: entry.invested,
+                pool: entry.pool
             })),
-            totalShares: this.totalShares
+            shareClasses: this.shareClasses.map(c => ({ ...c })),
+            stakeholders: this.stakeholders.map(h => ({ ...h })),
+            totalShares: this.totalShares,
+            issuedShares,
+            treasuryShares: 0,
+            sharePrice: this.sharePrice,
+            board: this.board.map(seat => ({ ...seat }))
         };
+        
+        // Treasury-method dilution at the latest round price
+        const bases = ownershipBases(snapshot);
+        snapshot.entries.forEach((entry, i) => {
+            entry.treasuryShares = bases[i].treasuryShares;
+            entry.treasuryPercentage = bases[i].treasuryPercentage;
+        });
+        snapshot.treasuryShares = bases.reduce((sum, b) => sum + b.treasuryShares, 0);
         this.history.push(snapshot);
     }
 
@@ -60,15 +523,31 @@ export class Company {
      * @param percent Percentage ownership post-issuance
      * @param name Name of entity receiving equity
      * @param type Type of shares (defaults to common)
+     * @param holder Stakeholder id and role (defaults to an angel named after the recipient)
+     * @param date ISO date of the issuance (YYYY-MM-DD)
      */
-    public giveEquity(percent: number, name: string, type: ShareType = 'common'): Company {
+    public giveEquity(percent: number, name: string, type: ShareType = 'common', holder?: StakeholderRef, date?: string): Company {
+        this._assertOpen('issue equity');
+        if (!(percent > 0 && percent < 100)) {
+            throw new ValidationError('percent', percent, 'must be above 0 and below 100');
+        }
+        if (!['common', 'preferred', 'option'].includes(type)) {
+            throw new ValidationError('type', type, 'must be common, preferred or option (issue warrants with issueWarrant)');
+        }
+        if (date !== undefined) {
+            assertDate('date', date);
+        }
+        if (this.capTable.some(entry => entry.name === name)) {
+            throw new ValidationError('name', name, 'already has a row on the cap table');
+        }
+        
         // Issue shares equal to percent of post-issuance total
         // newShares / (this.totalShares + newShares) = percent/100
-        const newShares = Math.round(
-            (percent / (100 - percent)) * this.totalShares
-        );
-        this._addEntity(name, newShares, type);
-        this._saveSnapshot(`Equity Grant: ${name} (${percent}%)`);
+        const { id } = this._registerHolder(name, holder, type === 'option' ? 'pool' : 'angel');
+        const exact = Fraction.from(percent).div(Fraction.from(100).minus(percent)).times(this.totalShares);
+        const newShares = this._roundShares(name, exact);
+        this._addEntity(name, newShares, this._defaultClass(type), id);
+        this._saveSnapshot(`Equity Grant: ${name} (${percent}%)`, date);
         return this;
     }
 
@@ -79,19 +558,41 @@ export class Company {
      * @param name Investor name
      * @param discount Optional discount rate (0-100%)
      * @param safeType Type of SAFE ('pre-money' or 'post-money')
+     * @param holder Stakeholder id and role (defaults to an angel named after the investor)
+     * @param date ISO date the SAFE was signed (YYYY-MM-DD)
      */
     public signSafe(
         cap: number | 'uncapped', 
         amount: number, 
         name: string, 
         discount?: number,
-        safeType: SafeType = 'post-money'
+        safeType: SafeType = 'post-money',
+        holder?: StakeholderRef,
+        date?: string
     ): Company {
+        this._assertOpen('sign a SAFE');
+        assertCap('cap', cap);
+        assertPositive('amount', amount);
+        if (discount !== undefined) {
+            assertPercent('discount', discount);
+        }
+        if (date !== undefined) {
+            assertDate('date', date);
+        }
+        
+        const holderId = this._registerHolder(name, holder, 'angel', true).id;
+        
+        // Earlier SAFEs of the same type with an MFN side letter take any better cap or discount;
+        // pre-money and post-money caps are not comparable
+        const upgraded = this._outstandingSafes()
+            .filter(s => s.rights?.mfn && s.type === safeType && this._applyMfn(s, cap, discount, name));
+        
         // Record a SAFE
         this.safes.push({ 
             cap, 
             amount, 
             name, 
+            holderId,
             converted: false,
             discount,
             type: safeType
@@ -99,127 +600,1909 @@ export class Company {
         
         const capStr = cap === 'uncapped' ? 'uncapped' : `$${(cap/1000000).toFixed(1)}M cap`;
         const discountStr = discount ? ` with ${discount}% discount` : '';
-        this._saveSnapshot(`SAFE: ${name} ($${amount.toLocaleString()}, ${capStr}${discountStr})`);
+        const mfnStr = upgraded.length > 0 ? `; MFN upgrade: ${upgraded.map(s => s.name).join(', ')}` : '';
+        this._saveSnapshot(`SAFE: ${name} ($${amount.toLocaleString()}, ${capStr}${discountStr})${mfnStr}`, date);
         
         return this;
     }
 
     /**
-     * Execute a priced financing round
-     * @param preMoneyValuation Pre-money valuation
-     * @param newMoney New investment amount
-     * @param name Name of the round
+     * Upgrade an MFN holder's SAFE to a later SAFE's cap and discount, where they are better
+     * @returns Whether anything changed
      */
-    public pricedRound(preMoneyValuation: number, newMoney: number, name: string = 'Series A'): Company {
-        // Calculate price per share
-        const pricePerShare = preMoneyValuation / this.totalShares;
-        // Calculate post-money valuation
-        const postMoney = preMoneyValuation + newMoney;
-        
-        // First pass: calculate shares for post-money SAFEs (needs to be done first)
-        let postMoneySafeShares = 0;
-        
-        this.safes.forEach(s => {
-            if (!s.converted && s.type === 'post-money') {
-                if (s.cap === 'uncapped') {
-                    const effectivePrice = s.discount ? 
-                        pricePerShare * (1 - s.discount / 100) : pricePerShare;
-                    postMoneySafeShares += Math.round(s.amount / effectivePrice);
-                } else {
-                    // For post-money SAFEs, use cap for price calculation
-                    // Regardless of round valuation
-                    const capPricePerShare = s.cap / (this.totalShares + postMoneySafeShares);
-                    const effectivePrice = s.discount ? 
-                        Math.min(capPricePerShare, pricePerShare * (1 - s.discount / 100)) : 
-                        Math.min(capPricePerShare, pricePerShare);
-                    postMoneySafeShares += Math.round(s.amount / effectivePrice);
-                }
+    private _applyMfn(safe: Safe, cap: number | 'uncapped', discount: number | undefined, from: string): boolean {
+        const betterCap = cap !== 'uncapped' && (safe.cap === 'uncapped' || cap < safe.cap);
+        const betterDiscount = discount !== undefined && discount > (safe.discount ?? 0);
+        if (!betterCap && !betterDiscount) {
+            return false;
+        }
+        if (betterCap) {
+            safe.cap = cap;
+        }
+        if (betterDiscount) {
+            safe.discount = discount;
+        }
+        safe.mfnUpgrades = [...(safe.mfnUpgrades ?? []), { from, cap: safe.cap, discount: safe.discount }];
+        return true;
+    }
+
+    /**
+     * Grant pro-rata, MFN or other side-letter rights to the holder of an outstanding SAFE
+     * @param name Name on the SAFE (the latest outstanding one, if there are several)
+     * @param rights Rights granted, added to any granted before
+     */
+    public sideLetter(name: string, rights: SafeRights): Company {
+        this._assertOpen('grant a side letter');
+        if (typeof rights !== 'object' || rights === null || Array.isArray(rights)) {
+            throw new ValidationError('rights', rights, 'must be an object of side-letter rights');
+        }
+        Object.keys(rights).forEach(key => {
+            if (!['proRata', 'mfn', 'terms'].includes(key)) {
+                throw new ValidationError(`rights.${key}`, rights[key as keyof SafeRights], 'is not a side-letter right (expected proRata, mfn or terms)');
             }
         });
+        if (rights.proRata !== undefined) {
+            assertBoolean('rights.proRata', rights.proRata);
+        }
+        if (rights.mfn !== undefined) {
+            assertBoolean('rights.mfn', rights.mfn);
+        }
+        if (rights.terms !== undefined) {
+            assertStrings('rights.terms', rights.terms);
+        }
+        const safe = this._outstandingSafes().filter(s => s.name === name).pop();
+        if (!safe) {
+            throw new CapTableError(`${name} holds no outstanding SAFE`);
+        }
+        safe.rights = {
+            ...safe.rights,
+            ...rights,
+            terms: [...(safe.rights?.terms ?? []), ...(rights.terms ?? [])]
+        };
+        
+        const granted = [
+            rights.proRata ? 'pro-rata' : undefined,
+            rights.mfn ? 'MFN' : undefined,
+            ...(rights.terms ?? [])
+        ].filter(Boolean).join(', ');
+        this._saveSnapshot(`Side Letter: ${name} (${granted || 'no new rights'})`);
+        return this;
+    }
+
+    /**
+     * Sign a convertible note that accrues interest until it converts, matures or is repaid
+     * @param principal Principal amount lent
+     * @param interestRate Annual interest rate (0-100%)
+     * @param cap Valuation cap (number or 'uncapped')
+     * @param discount Discount rate (0-100%)
+     * @param issueDate ISO issue date (YYYY-MM-DD)
+     * @param maturityDate ISO maturity date (YYYY-MM-DD)
+     * @param name Investor name
+     * @param options Interest type and behavior at maturity
+     */
+    public signNote(
+        principal: number,
+        interestRate: number,
+        cap: number | 'uncapped',
+        discount: number | undefined,
+        issueDate: string,
+        maturityDate: string,
+        name: string,
+        options: NoteOptions = {}
+    ): Company {
+        this._assertOpen('sign a note');
+        assertPositive('principal', principal);
+        assertNonNegative('interestRate', interestRate);
+        assertCap('cap', cap);
+        if (discount !== undefined) {
+            assertPercent('discount', discount);
+        }
+        assertDate('issueDate', issueDate);
+        assertDate('maturityDate', maturityDate);
+        if (maturityDate <= issueDate) {
+            throw new ValidationError('maturityDate', maturityDate, `must be after the issue date ${issueDate}`);
+        }
+        if (options.extensionMonths !== undefined && !(Number.isSafeInteger(options.extensionMonths) && options.extensionMonths > 0)) {
+            throw new ValidationError('options.extensionMonths', options.extensionMonths, 'must be a whole number of months above 0');
+        }
+        
+        this.notes.push({
+            name,
+            holderId: this._registerHolder(name, options.holder, 'angel', true).id,
+            principal,
+            interestRate,
+            cap,
+            discount,
+            issueDate,
+            maturityDate,
+            interestType: options.interestType ?? 'simple',
+            maturityBehavior: options.maturityBehavior ?? 'convert',
+            extensionMonths: options.extensionMonths ?? 12,
+            converted: false,
+            repaid: false
+        });
+        
+        const capStr = cap === 'uncapped' ? 'uncapped' : `$${(cap/1000000).toFixed(1)}M cap`;
+        const discountStr = discount ? ` with ${discount}% discount` : '';
+        this._saveSnapshot(`Note: ${name} ($${principal.toLocaleString()} at ${interestRate}%, ${capStr}${discountStr})`, issueDate);
+        
+        return this;
+    }
+
+    /**
+     * Apply the maturity terms of every outstanding note that has matured by a date
+     * @param asOf ISO date (YYYY-MM-DD)
+     * @param valuation Valuation at which uncapped notes convert at maturity
+     */
+    public matureNotes(asOf: string, valuation?: number): Company {
+        this._assertOpen('mature notes');
+        assertDate('asOf', asOf);
+        if (valuation !== undefined) {
+            assertPositive('valuation', valuation);
+        }
         
-        // Convert SAFEs
-        this.safes.forEach(s => {
-            if (!s.converted) {
-                let shares = 0;
+        this.notes
+            .filter(n => !n.converted && !n.repaid && n.maturityDate <= asOf)
+            .forEach(n => {
+                const amount = conversionAmount(n, n.maturityDate);
+                const maturityDate = n.maturityDate;
                 
-                if (s.type === 'post-money') {
-                    // Recalculate for each SAFE with updated total including other post-money SAFEs
-                    if (s.cap === 'uncapped') {
-                        // For uncapped SAFEs, they convert at round price (with discount if applicable)
-                        const effectivePrice = s.discount ? 
-                            pricePerShare * (1 - s.discount / 100) : pricePerShare;
-                        shares = Math.round(s.amount / effectivePrice);
-                    } else {
-                        // For capped post-money SAFEs, price is based on the cap
-                        const capPricePerShare = s.cap / (this.totalShares + postMoneySafeShares);
-                        const effectivePrice = s.discount ? 
-                            Math.min(capPricePerShare, pricePerShare * (1 - s.discount / 100)) : 
-                            Math.min(capPricePerShare, pricePerShare);
-                        shares = Math.round(s.amount / effectivePrice);
+                if (n.maturityBehavior === 'repay') {
+                    n.repaid = true;
+                    this._saveSnapshot(`Note Repaid: ${n.name} ($${Math.round(amount).toLocaleString()})`, maturityDate);
+                } else if (n.maturityBehavior === 'extend') {
+                    // Extend until the note matures after asOf, recorded once and dated no earlier than
+                    // the last maturity passed or the latest event already recorded
+                    let passed = maturityDate;
+                    let extensions = 0;
+                    while (n.maturityDate <= asOf) {
+                        passed = n.maturityDate;
+                        n.maturityDate = addMonths(n.maturityDate, n.extensionMonths);
+                        extensions++;
                     }
+                    const latest = this.history.map(h => h.date).filter((d): d is string => d !== undefined).sort().pop();
+                    const extensionsStr = extensions > 1 ? `, ${extensions} extensions` : '';
+                    this._saveSnapshot(`Note Extended: ${n.name} (to ${n.maturityDate}${extensionsStr})`, latest && latest > passed ? latest : passed);
                 } else {
-                    // Pre-money SAFE calculations
-                    if (s.cap === 'uncapped') {
-                        // For uncapped SAFEs, they convert at round price (with discount if applicable)
-                        const effectivePrice = s.discount ? 
-                            pricePerShare * (1 - s.discount / 100) : pricePerShare;
-                        shares = Math.round(s.amount / effectivePrice);
-                    } else {
-                        // For capped pre-money SAFEs, use the more favorable of cap or round price
-                        const capPricePerShare = s.cap / this.totalShares;
-                        const effectivePrice = s.discount ? 
-                            Math.min(capPricePerShare, pricePerShare * (1 - s.discount / 100)) : 
-                            Math.min(capPricePerShare, pricePerShare);
-                        shares = Math.round(s.amount / effectivePrice);
+                    // Without a financing, convert into common at the cap
+                    const conversionValuation = n.cap === 'uncapped' ? valuation : n.cap;
+                    if (conversionValuation === undefined) {
+                        throw new CapTableError(`Uncapped note ${n.name} needs a valuation to convert at maturity`);
                     }
+                    const capitalization = this.totalShares;
+                    const exactPrice = Fraction.from(conversionValuation).div(capitalization);
+                    const exact = Fraction.from(amount).div(exactPrice);
+                    const shares = this._roundShares(`${n.name} (Note)`, exact, exactPrice);
+                    const price = exactPrice.toNumber();
+                    const shareClass = this._defaultClass('common');
+                    this._addEntity(`${n.name} (Note)`, shares, shareClass, n.holderId, amount);
+                    n.converted = true;
+                    n.conversion = {
+                        round: 'Maturity',
+                        shareClass: shareClass.name,
+                        amount,
+                        ...(n.cap === 'uncapped' ?
+                            { method: 'round', roundPrice: price } :
+                            { method: 'cap', capPrice: price, capitalization }),
+                        price,
+                        exactShares: exact.toNumber(),
+                        shares,
+                        remainder: Fraction.from(shares).minus(exact).toNumber()
+                    };
+                    this._saveSnapshot(`Note Converted at Maturity: ${n.name} ($${Math.round(amount).toLocaleString()})`, maturityDate);
                 }
-                
-                if (shares > 0) {
-                    this._addEntity(s.name + ' (SAFE)', shares, 'preferred');
-                    s.converted = true;
-                }
+            });
+        
+        return this;
+    }
+
+    /**
+     * Price a conversion at the lowest of the round, discount and cap prices, and record the math.
+     * Prices are compared exactly, and the shares rounded under the company's rounding policy.
+     * @param amount Amount converting
+     * @param cap Valuation cap
+     * @param discount Discount to the round price (0-100%)
+     * @param roundPrice Round price per share
+     * @param capitalization Share count the cap is divided by
+     */
+    private _conversionMath(
+        amount: number,
+        cap: number | 'uncapped',
+        discount: number | undefined,
+        roundPrice: Fraction,
+        capitalization: Fraction
+    ): Omit<Conversion, 'instrument' | 'label'> {
+        const discountPrice = discount ? roundPrice.times(Fraction.from(100).minus(discount).div(100)) : undefined;
+        const capPrice = cap === 'uncapped' ? undefined : Fraction.from(cap).div(capitalization);
+        
+        // Ties go to the earlier candidate, so a cap at the round price reads as the round price
+        let method: ConversionMethod = 'round';
+        let price = roundPrice;
+        if (discountPrice !== undefined && discountPrice.lt(price)) {
+            method = 'discount';
+            price = discountPrice;
+        }
+        if (capPrice !== undefined && capPrice.lt(price)) {
+            method = 'cap';
+            price = capPrice;
+        }
+        
+        const exact = Fraction.from(amount).div(price);
+        const shares = roundShares(exact, this.rounding);
+        return {
+            amount,
+            roundPrice: roundPrice.toNumber(),
+            discountPrice: discountPrice?.toNumber(),
+            capPrice: capPrice?.toNumber(),
+            capitalization: capPrice !== undefined ? capitalization.toNumber() : undefined,
+            method,
+            price: price.toNumber(),
+            exactShares: exact.toNumber(),
+            shares,
+            remainder: Fraction.from(shares).minus(exact).toNumber(),
+            exact,
+            exactPrice: price
+        };
+    }
+
+    /**
+     * Work out how many shares each unconverted SAFE and note receives at a given round price
+     * @param pricePerShare Round price per share
+     * @param poolIncrease Shares added to the option pool in connection with the round
+     * @param date Closing date of the round, used to accrue note interest
+     */
+    private _planConversions(pricePerShare: Fraction, poolIncrease: number, date?: string): Conversion[] {
+        const unconvertedSafes = this._outstandingSafes();
+        const preMoneyCapitalization = Fraction.from(this.totalShares + poolIncrease);
+        
+        // Pre-money SAFEs convert on a pre-money basis: existing shares plus the pool increase,
+        // excluding the new money and the other converting instruments
+        const preMoney = new Map(unconvertedSafes
+            .filter(s => s.type === 'pre-money')
+            .map(s => [s, this._conversionMath(s.amount, s.cap, s.discount, pricePerShare, preMoneyCapitalization)]));
+        
+        // Notes convert principal plus interest on the same pre-money basis
+        const notes = new Map(this.notes
+            .filter(n => !n.converted && !n.repaid)
+            .map(n => {
+                const amount = conversionAmount(n, date ?? n.maturityDate);
+                return [n, this._conversionMath(amount, n.cap, n.discount, pricePerShare, preMoneyCapitalization)];
+            }));
+        
+        // Post-money SAFEs divide their cap by the company capitalization as the YC post-money SAFE
+        // defines it: existing shares and pool (but not the pool increase for the round) plus every
+        // converting SAFE and note, their own shares included. A SAFE priced at its cap holds
+        // amount ÷ cap of that capitalization C and the rest hold a fixed number of shares, so
+        // C = (existing + fixed shares) ÷ (1 − Σ amount ÷ cap over the cap-priced SAFEs).
+        // Which SAFEs price at their caps depends on C, which only grows as more of them do:
+        // start with none and add those priced at their caps until the set stops changing.
+        const postMoneySafes = unconvertedSafes.filter(s => s.type === 'post-money');
+        this._promisedByPostMoneySafes(postMoneySafes);
+        const existing = [...preMoney.values(), ...notes.values()]
+            .reduce((sum, m) => sum.plus(m.exact), Fraction.from(this.totalShares));
+        let capPriced: Safe[] = [];
+        let postMoney = new Map<Safe, Omit<Conversion, 'instrument' | 'label'>>();
+        for (;;) {
+            const fixedShares = postMoneySafes
+                .filter(s => !capPriced.includes(s))
+                .reduce((sum, s) => sum.plus(this._conversionMath(s.amount, 'uncapped', s.discount, pricePerShare, existing).exact), existing);
+            const capitalization = fixedShares.div(Fraction.from(1).minus(this._promisedByPostMoneySafes(capPriced)));
+            postMoney = new Map(postMoneySafes
+                .map(s => [s, this._conversionMath(s.amount, s.cap, s.discount, pricePerShare, capitalization)]));
+            const next = postMoneySafes.filter(s => postMoney.get(s)!.method === 'cap');
+            if (next.length === capPriced.length) break;
+            capPriced = next;
+        }
+        
+        const conversions: Conversion[] = [];
+        unconvertedSafes.forEach(s => {
+            const math = s.type === 'post-money' ? postMoney.get(s)! : preMoney.get(s)!;
+            if (math.shares > 0) {
+                conversions.push({ instrument: s, label: 'SAFE', ...math });
+            }
+        });
+        notes.forEach((math, n) => {
+            if (math.shares > 0) {
+                conversions.push({ instrument: n, label: 'Note', ...math });
             }
         });
         
-        // Issue new round shares
-        const seriesShares = Math.round(newMoney / pricePerShare);
-        this._addEntity(name, seriesShares, 'preferred');
-        
-        this._saveSnapshot(`${name}: $${(preMoneyValuation/1000000).toFixed(1)}M pre-money, $${(newMoney/1000000).toFixed(1)}M raised`);
+        return conversions;
+    }
+
+    /**
+     * Combined fraction of the company that post-money SAFEs are promised at their caps
+     */
+    private _promisedByPostMoneySafes(safes: Safe[]): Fraction {
+        const promised = safes
+            .filter(s => s.type === 'post-money' && s.cap !== 'uncapped')
+            .reduce((sum, s) => sum.plus(Fraction.from(s.amount).div(s.cap as number)), Fraction.from(0));
+        if (promised.compare(1) >= 0) {
+            throw new CapTableError(`Post-money SAFEs are promised ${(promised.toNumber() * 100).toFixed(2)}% of the company at their caps`);
+        }
+        return promised;
+    }
+
+    /**
+     * Reject an event after the company has been sold or dissolved. Departures after a sale are still
+     * recorded, since terminations by the acquirer are what trigger double-trigger acceleration.
+     * @param action What the event would do, for the error message
+     * @param afterSale Whether the event may still follow a sale
+     */
+    private _assertOpen(action: string, afterSale: boolean = false): void {
+        if (!this.closed || (afterSale && this.closed.event === 'acquisition')) {
+            return;
+        }
+        const outcome = this.closed.event === 'acquisition' ? 'sold' : 'dissolved';
+        throw new CapTableError(`Cannot ${action}: the company was ${outcome} (${this.closed.label})`);
+    }
+
+    /**
+     * SAFEs that have neither converted nor been settled
+     */
+    private _outstandingSafes(): Safe[] {
+        return this.safes.filter(s => !s.converted && !s.settlement);
+    }
+
+    /**
+     * Claims of outstanding SAFEs on the proceeds of an acquisition or dissolution.
+     * In an acquisition a capped SAFE may instead convert into common at its cap, dividing it by the
+     * liquidity capitalization: for post-money SAFEs that includes every converting SAFE's shares,
+     * their own included; for pre-money SAFEs it is the existing shares.
+     * Uncapped SAFEs would convert at the sale price, which comes to the same as a cash-out.
+     * @param event Acquisition or dissolution
+     */
+    private _safeClaims(event: LiquidityEventType): (SafeClaim & { exact: Fraction; capPrice?: Fraction; capitalization?: number })[] {
+        const outstanding = this._outstandingSafes();
+        const preMoneyShares = outstanding
+            .filter(s => s.type === 'pre-money' && s.cap !== 'uncapped')
+            .reduce((sum, s) => sum.plus(Fraction.from(s.amount).times(this.totalShares).div(s.cap as number)), Fraction.from(0));
+        // Solved directly: every capped post-money SAFE holds amount ÷ cap of the capitalization
+        const capitalization = preMoneyShares.plus(this.totalShares)
+            .div(Fraction.from(1).minus(this._promisedByPostMoneySafes(outstanding)));
         
-        return this;
+        return outstanding.map(s => {
+            const claim = { name: s.name, holderId: s.holderId, role: this._holder(s.holderId).role, amount: s.amount };
+            if (event === 'dissolution' || s.cap === 'uncapped') {
+                return { ...claim, shares: 0, exact: Fraction.from(0) };
+            }
+            const denominator = s.type === 'post-money' ? capitalization : Fraction.from(this.totalShares);
+            const capPrice = Fraction.from(s.cap).div(denominator);
+            const exact = Fraction.from(s.amount).div(capPrice);
+            return { ...claim, shares: roundShares(exact, this.rounding), exact, capPrice, capitalization: denominator.toNumber() };
+        });
     }
 
-    public logEquity(): Company {
-        console.log('Cap Table:');
-        const total = this.totalShares;
-        this.capTable.forEach(r => {
-            const pct = ((r.shares / total) * 100).toFixed(2);
-            console.log(`${r.name}: ${r.shares} shares (${pct}%) [${r.type}]`);
+    /**
+     * Settle outstanding SAFEs out of the proceeds of a sale or wind-down, and record the event
+     */
+    private _settleSafes(event: LiquidityEventType, value: number, name: string, options: ExitOptions): Company {
+        const claims = this._safeClaims(event);
+        const waterfall = computeExitWaterfall(this.history[this.history.length - 1], value, { ...options, event }, claims);
+        const label = event === 'acquisition' ?
+            `${name}: $${(value/1000000).toFixed(1)}M sale` :
+            `${name}: $${(value/1000000).toFixed(1)}M net assets`;
+        
+        // SAFE payouts come last, in the order of the claims
+        const safePayouts = waterfall.payouts.slice(waterfall.payouts.length - claims.length);
+        this._outstandingSafes().forEach((s, i) => {
+            const claim = claims[i];
+            const payout = safePayouts[i];
+            if (payout.converted) {
+                const shareClass = this._defaultClass('common');
+                this._recordRounding(`${s.name} (SAFE)`, claim.exact, claim.shares, claim.capPrice);
+                this._addEntity(`${s.name} (SAFE)`, claim.shares, shareClass, s.holderId, s.amount);
+                s.converted = true;
+                s.conversion = {
+                    round: name,
+                    shareClass: shareClass.name,
+                    amount: s.amount,
+                    capPrice: claim.capPrice!.toNumber(),
+                    capitalization: claim.capitalization,
+                    method: 'cap',
+                    price: claim.capPrice!.toNumber(),
+                    exactShares: claim.exact.toNumber(),
+                    shares: claim.shares,
+                    remainder: Fraction.from(claim.shares).minus(claim.exact).toNumber()
+                };
+            }
+            s.settlement = {
+                event,
+                label,
+                method: payout.converted ? 'conversion' : 'cash-out',
+                shares: payout.converted ? claim.shares : 0,
+                payout: payout.total
+            };
         });
-        console.log(`Total shares: ${total}`);
         
-        // Show any unconverted SAFEs
-        const unconvertedSafes = this.safes.filter(s => !s.converted);
-        if (unconvertedSafes.length > 0) {
-            console.log('\nUnconverted SAFEs:');
-            unconvertedSafes.forEach(s => {
-                const capInfo = s.cap === 'uncapped' ? 'uncapped' : `$${s.cap.toLocaleString()} cap`;
-                const discountInfo = s.discount ? ` with ${s.discount}% discount` : '';
-                console.log(`${s.name}: $${s.amount.toLocaleString()} (${capInfo}${discountInfo}) [${s.type}]`);
-            });
+        this.closed = { event, label, date: options.date };
+        // A sale is a change of control: single-trigger vesting accelerates now, double-trigger on a later termination
+        if (event === 'acquisition') {
+            this._accelerate(this._vestingHoldings(), 'single', options.date);
+            this.changeOfControl = { label, date: options.date };
         }
         
+        this._saveSnapshot(label, options.date);
         return this;
     }
-    
+
     /**
-     * Generate a visualization of equity dilution over time
-     * @param outputPath File path to save the visualization (PNG)
-     * @param width Width of the output image (default: 1600px for high resolution)
+     * Add shares to the existing option pool, creating one if there is none
+     */
+    private _topUpPool(shares: number): void {
+        const pool = this._pools()[0];
+        if (pool) {
+            pool.shares += shares;
+            this.totalShares += shares;
+        } else {
+            const holder = this._registerHolder('Option Pool', {}, 'pool');
+            this._addEntity('Option Pool', shares, this._defaultClass('option'), holder.id);
+        }
+    }
+
+    /**
+     * New money each converting SAFE with pro-rata rights may put into a round: the new money times
+     * its share of the capitalization once the pool is topped up and SAFEs and notes have converted
+     * @param conversions Conversions planned for the round
+     * @param poolIncrease Shares added to the option pool for the round
+     * @param newMoney New money the allocations are a share of
+     * @param takeUp Percent of its allocation each holder takes up, by name
+     */
+    private _proRataAllocations(
+        conversions: Conversion[],
+        poolIncrease: number,
+        newMoney: number,
+        takeUp: Record<string, number> = {}
+    ): { safe: Safe; amount: number }[] {
+        const capitalization = conversions.reduce((sum, c) => sum + c.shares, this.totalShares + poolIncrease);
+        return conversions
+            .filter(c => c.label === 'SAFE' && (c.instrument as Safe).rights?.proRata)
+            .map(c => ({
+                safe: c.instrument as Safe,
+                amount: ((newMoney * c.shares) / capitalization) * (takeUp[c.instrument.name] ?? 100) / 100
+            }))
+            .filter(a => a.amount > 0);
+    }
+
+    /**
+     * Execute a priced financing round
+     * @param preMoneyValuation Pre-money valuation
+     * @param newMoney New investment amount
+     * @param name Name of the round
+     * @param options Terms of the preferred class issued in the round, the post-money pool target and pro-rata take-up
+     */
+    public pricedRound(
+        preMoneyValuation: number,
+        newMoney: number,
+        name: string = 'Series A',
+        options: PricedRoundOptions = {}
+    ): Company {
+        this._assertOpen('raise a priced round');
+        assertPositive('preMoneyValuation', preMoneyValuation);
+        assertPositive('newMoney', newMoney);
+        if (this.rounds.includes(name)) {
+            throw new ValidationError('name', name, 'duplicates an earlier round');
+        }
+        if (options.targetPoolPercent !== undefined) {
+            assertPercent('options.targetPoolPercent', options.targetPoolPercent);
+        }
+        if (options.date !== undefined) {
+            assertDate('options.date', options.date);
+        }
+        const proRataOptions: ProRataOptions = options.proRata ?? {};
+        const proRataMode = proRataOptions.mode ?? 'within';
+        if (proRataMode !== 'within' && proRataMode !== 'on-top') {
+            throw new ValidationError('options.proRata.mode', proRataMode, 'must be "within" or "on-top"');
+        }
+        Object.entries(proRataOptions.takeUp ?? {}).forEach(([holder, percent]) => {
+            if (!(percent >= 0 && percent <= 100)) {
+                throw new ValidationError(`options.proRata.takeUp.${holder}`, percent, 'must be from 0 to 100');
+            }
+        });
+        Company._validateShareClassTerms('options.shareClass', options.shareClass ?? {});
+        this._validateBoardChange(options.board ?? {});
+        (options.investors ?? []).forEach((investor, i) => assertPositive(`options.investors[${i}].amount`, investor.amount));
+        const allocated = (options.investors ?? []).reduce((sum, investor) => sum + investor.amount, 0);
+        if (allocated > newMoney) {
+            throw new ValidationError('options.investors', allocated, `amounts must not sum to more than the new money ${newMoney}`);
+        }
+        // Checked before anything is issued: the round's own row is named after it
+        (options.investors ?? []).forEach((investor, i) => this._assertNotInsider(`options.investors[${i}].name`, investor.name, investor));
+        if (allocated < newMoney) {
+            this._assertNotInsider('name', name);
+        }
+        
+        // Price the round for a given pool increase carved out of the pre-money
+        const planRound = (poolIncrease: number) => {
+            const pricePerShare = Fraction.from(preMoneyValuation).div(this.totalShares + poolIncrease);
+            const conversions = this._planConversions(pricePerShare, poolIncrease, options.date);
+            const proRata = this._proRataAllocations(conversions, poolIncrease, newMoney, proRataOptions.takeUp);
+            // Allocations raised on top of the round add to the money coming in
+            const raised = proRataMode === 'on-top' ? proRata.reduce((sum, a) => sum + a.amount, newMoney) : newMoney;
+            return { pricePerShare, conversions, proRata, raised };
+        };
+        
+        // Option pool shuffle: grow the pool before the round so that it reaches the
+        // target percentage post-money, diluting only existing holders and converting SAFEs.
+        // The increase lowers the price, which changes the new shares, so iterate to a fixed point.
+        let poolIncrease = 0;
+        const { targetPoolPercent } = options;
+        if (targetPoolPercent !== undefined) {
+            const existingPool = this._pools()
+                .reduce((sum, entry) => sum + entry.shares, 0);
+            
+            for (let i = 0; i < 100; i++) {
+                const { pricePerShare, conversions, raised } = planRound(poolIncrease);
+                const convertedShares = conversions.reduce((sum, c) => sum + c.shares, 0);
+                const postMoneyShares = Fraction.from(raised).div(pricePerShare)
+                    .plus(this.totalShares + poolIncrease + convertedShares);
+                const target = Fraction.from(targetPoolPercent).div(100).times(postMoneyShares).minus(existingPool);
+                const next = Math.max(0, Number(target.roundHalfUp()));
+                if (next === poolIncrease) break;
+                poolIncrease = next;
+            }
+        }
+        
+        const { pricePerShare: exactPrice, conversions, proRata, raised } = planRound(poolIncrease);
+        const pricePerShare = exactPrice.toNumber();
+        const proRataMoney = proRata.reduce((sum, a) => sum + a.amount, 0);
+        if (proRataMode === 'within' && proRataMoney > newMoney - allocated) {
+            throw new ValidationError('options.proRata', proRataMoney, `allocations must fit in the ${newMoney - allocated} of new money left for them (or use mode "on-top")`);
+        }
+        const sharesBefore = this.totalShares + poolIncrease;
+        const protectedClasses = this.shareClasses.filter(c => c.type === 'preferred' && c.antiDilution !== 'none');
+        
+        // Each round issues a new series of preferred at the round price
+        const { name: className = `${name} Preferred`, ...terms } = options.shareClass ?? {};
+        const roundClass = this._addShareClass({
+            ...PREFERRED_TERMS,
+            ...terms,
+            name: className,
+            type: 'preferred',
+            originalIssuePrice: pricePerShare
+        });
+        
+        if (poolIncrease > 0) {
+            this._topUpPool(poolIncrease);
+        }
+        
+        // Convert SAFEs and notes
+        conversions.forEach(({ instrument, label, exact, exactPrice: conversionPrice, ...math }) => {
+            // Converted instruments land in a shadow series priced at their conversion price
+            const shareClass = this._shadowClass(roundClass, math.price);
+            this._recordRounding(`${instrument.name} (${label})`, exact, math.shares, conversionPrice);
+            this._addEntity(`${instrument.name} (${label})`, math.shares, shareClass, instrument.holderId, math.amount);
+            instrument.converted = true;
+            instrument.conversion = { round: name, shareClass: shareClass.name, ...math };
+        });
+        
+        // Issue new round shares to named participants, and the rest to the round itself,
+        // rounding each holder separately so the series is the sum of its rows
+        let seriesShares = 0;
+        let unallocated = Fraction.from(newMoney);
+        (options.investors ?? []).forEach(investor => {
+            const holder = this._registerHolder(investor.name, investor, 'fund', true);
+            const rowName = `${investor.name} (${name})`;
+            const shares = this._roundShares(rowName, Fraction.from(investor.amount).div(exactPrice), exactPrice);
+            this._addEntity(rowName, shares, roundClass, holder.id, investor.amount);
+            seriesShares += shares;
+            unallocated = unallocated.minus(investor.amount);
+        });
+        // SAFE holders with pro-rata rights buy their allocations alongside
+        proRata.forEach(({ safe, amount }) => {
+            const rowName = `${safe.name} (${name})`;
+            const shares = this._roundShares(rowName, Fraction.from(amount).div(exactPrice), exactPrice);
+            const row = this.capTable.find(entry => entry.name === rowName && entry.shareClass === roundClass.name);
+            if (row) {
+                row.shares += shares;
+                row.invested = (row.invested ?? 0) + amount;
+                this.totalShares += shares;
+            } else {
+                this._addEntity(rowName, shares, roundClass, safe.holderId, amount);
+            }
+            seriesShares += shares;
+            if (proRataMode === 'within') {
+                unallocated = unallocated.minus(amount);
+            }
+        });
+        if (unallocated.compare(0) > 0) {
+            const holder = this._registerHolder(name, {}, 'fund', true);
+            const shares = this._roundShares(name, unallocated.div(exactPrice), exactPrice);
+            this._addEntity(name, shares, roundClass, holder.id, unallocated.toNumber());
+            seriesShares += shares;
+        }
+        
+        const { investor = 0, common = 0, independent = 0 } = options.board ?? {};
+        this._changeBoard({ shareClass: roundClass.name }, investor);
+        this._changeBoard('common', common);
+        this._changeBoard('all', independent);
+        
+        this.sharePrice = pricePerShare;
+        this.rounds.push(name);
+        const poolStr = targetPoolPercent !== undefined ? `, ${targetPoolPercent}% post-money pool` : '';
+        const proRataStr = proRataMoney > 0 ? ` incl. $${(proRataMoney/1000000).toFixed(1)}M pro-rata` : '';
+        this._saveSnapshot(`${name}: $${(preMoneyValuation/1000000).toFixed(1)}M pre-money, $${(raised/1000000).toFixed(1)}M raised${proRataStr}${poolStr}`, options.date);
+        
+        // Earlier classes priced above this round get their conversion ratios adjusted
+        const moneyIn = raised + conversions.reduce((sum, c) => sum + c.amount, 0);
+        const sharesIssued = seriesShares + conversions.reduce((sum, c) => sum + c.shares, 0);
+        this._applyAntiDilution(protectedClasses, pricePerShare, moneyIn, sharesIssued, sharesBefore, options.date);
+        
+        return this;
+    }
+
+    /**
+     * Reject round class terms the waterfall and anti-dilution cannot apply: a negative preference or
+     * seniority, a participation cap below 1x, a conversion ratio of zero or an unknown anti-dilution method
+     */
+    private static _validateShareClassTerms(field: string, terms: Partial<ShareClassTerms> & { name?: string }): void {
+        if (terms.name !== undefined && (typeof terms.name !== 'string' || terms.name.trim() === '')) {
+            throw new ValidationError(`${field}.name`, terms.name, 'must be a non-empty string');
+        }
+        if (terms.liquidationMultiple !== undefined) {
+            assertNonNegative(`${field}.liquidationMultiple`, terms.liquidationMultiple);
+        }
+        if (terms.participating !== undefined) {
+            assertBoolean(`${field}.participating`, terms.participating);
+        }
+        if (terms.participationCap !== undefined) {
+            assertPositive(`${field}.participationCap`, terms.participationCap);
+            if (terms.participationCap < 1) {
+                throw new ValidationError(`${field}.participationCap`, terms.participationCap, 'must be at least 1 (a multiple of the issue price)');
+            }
+        }
+        if (terms.conversionRatio !== undefined) {
+            assertPositive(`${field}.conversionRatio`, terms.conversionRatio);
+        }
+        if (terms.seniority !== undefined) {
+            assertNonNegative(`${field}.seniority`, terms.seniority);
+        }
+        if (terms.antiDilution !== undefined && !ANTI_DILUTION.includes(terms.antiDilution)) {
+            throw new ValidationError(`${field}.antiDilution`, terms.antiDilution, `must be one of ${ANTI_DILUTION.map(a => `"${a}"`).join(', ')}`);
+        }
+        if (terms.votesPerShare !== undefined) {
+            assertNonNegative(`${field}.votesPerShare`, terms.votesPerShare);
+        }
+    }
+
+    /**
+     * Reject board changes that are not whole seats or leave the common stock with fewer than none
+     */
+    private _validateBoardChange({ investor, common, independent }: BoardChange): void {
+        [['investor', investor], ['independent', independent]].forEach(([field, seats]) => {
+            if (seats !== undefined && !(Number.isSafeInteger(seats) && (seats as number) >= 0)) {
+                throw new ValidationError(`options.board.${field}`, seats, 'must be a whole number of seats, zero or more');
+            }
+        });
+        if (common !== undefined) {
+            const current = this.board.find(seat => seat.electorate === 'common')?.seats ?? 0;
+            if (!Number.isSafeInteger(common) || current + common < 0) {
+                throw new ValidationError('options.board.common', common, `must be a whole number of seats no lower than -${current}`);
+            }
+        }
+    }
+
+    /**
+     * Add seats elected by an electorate (or remove them, for a negative change)
+     */
+    private _changeBoard(electorate: Electorate, seats: number): void {
+        if (seats === 0) return;
+        const key = JSON.stringify(electorate);
+        const existing = this.board.find(seat => JSON.stringify(seat.electorate) === key);
+        if (existing) {
+            existing.seats += seats;
+            this.board = this.board.filter(seat => seat.seats > 0);
+        } else {
+            this.board.push({ electorate, seats });
+        }
+    }
+
+    /**
+     * Adjust the conversion ratios of protected preferred classes after a down round
+     * @param classes Preferred classes that existed before the round and carry anti-dilution protection
+     * @param pricePerShare Price per share of the new round
+     * @param moneyIn Consideration received for the new shares (new money plus converting instruments)
+     * @param sharesIssued Shares issued in the round
+     * @param sharesBefore Fully diluted, as-converted shares outstanding before the round
+     * @param date Closing date of the round
+     */
+    private _applyAntiDilution(
+        classes: ShareClass[],
+        pricePerShare: number,
+        moneyIn: number,
+        sharesIssued: number,
+        sharesBefore: number,
+        date?: string
+    ): void {
+        const adjustments: string[] = [];
+        
+        classes.forEach(c => {
+            const conversionPrice = c.originalIssuePrice / c.conversionRatio;
+            if (pricePerShare >= conversionPrice) return;
+            
+            // Full ratchet resets to the new price; broad-based weighted average blends it in:
+            // CP2 = CP1 * (A + B) / (A + C), with A the shares outstanding before the round,
+            // B the shares the money would have bought at CP1 and C the shares actually issued
+            const newConversionPrice = c.antiDilution === 'full-ratchet' ?
+                pricePerShare :
+                conversionPrice * (sharesBefore + moneyIn / conversionPrice) / (sharesBefore + sharesIssued);
+            
+            const oldRatio = c.conversionRatio;
+            c.conversionRatio = c.originalIssuePrice / newConversionPrice;
+            adjustments.push(`${c.name} ${oldRatio.toFixed(4)} → ${c.conversionRatio.toFixed(4)} (${c.antiDilution})`);
+        });
+        
+        if (adjustments.length > 0) {
+            this.totalShares = this.capTable.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+            this._saveSnapshot(`Anti-Dilution Adjustment: ${adjustments.join('; ')}`, date);
+        }
+    }
+
+    /**
+     * Grant options out of an option pool to a named employee
+     * @param employee Employee receiving the grant
+     * @param shares Number of options granted
+     * @param terms Strike price, grant date, vesting schedule and source pool
+     */
+    public grantOptions(employee: string, shares: number, terms: OptionGrantTerms): Company {
+        this._assertOpen('grant options');
+        assertWholeShares('shares', shares);
+        assertNonNegative('terms.strikePrice', terms.strikePrice);
+        assertDate('terms.grantDate', terms.grantDate);
+        if (terms.vesting) {
+            Company._validateVesting('terms.vesting', terms.vesting);
+        }
+        
+        const pools = this._pools();
+        const pool = terms.pool ? pools.find(p => p.name === terms.pool) : pools[0];
+        if (!pool) {
+            throw new CapTableError(terms.pool ? `Option pool not found: ${terms.pool}` : 'No option pool to grant from');
+        }
+        if (shares > pool.shares) {
+            throw new CapTableError(`${pool.name} has only ${pool.shares} unallocated options, cannot grant ${shares}`);
+        }
+        
+        const holder = this._registerHolder(employee, terms.holder, 'employee');
+        this.optionGrants.push({
+            employee,
+            holderId: holder.id,
+            shares,
+            strikePrice: terms.strikePrice,
+            grantDate: terms.grantDate,
+            vesting: terms.vesting ?? { months: 48, cliffMonths: 12 },
+            pool: pool.name,
+            exercised: 0,
+            cancelled: 0,
+            acceleratedShares: 0
+        });
+        
+        // Move the options from the pool row to the employee's own row
+        pool.shares -= shares;
+        const row = this._optionRow(employee, pool.name);
+        if (row) {
+            row.shares += shares;
+        } else {
+            this.capTable.push({ name: `${employee} (Options)`, shares, type: 'option', shareClass: pool.shareClass, holderId: holder.id, pool: pool.name });
+        }
+        
+        this._saveSnapshot(`Option Grant: ${employee} (${shares.toLocaleString()} @ $${terms.strikePrice})`, terms.grantDate);
+        return this;
+    }
+
+    /**
+     * Exercise outstanding options into common shares
+     * @param employee Employee exercising
+     * @param shares Number of options to exercise (defaults to all outstanding)
+     */
+    public exerciseOptions(employee: string, shares?: number): Company {
+        this._assertOpen('exercise options');
+        if (shares !== undefined) {
+            assertWholeShares('shares', shares);
+        }
+        const grants = this._outstandingGrants(employee);
+        const outstanding = grants.reduce((sum, g) => sum + this._grantOutstanding(g), 0);
+        if (outstanding === 0) {
+            throw new CapTableError(`${employee} has no outstanding options to exercise`);
+        }
+        if (shares !== undefined && shares > outstanding) {
+            throw new CapTableError(`${employee} has only ${outstanding} outstanding options, cannot exercise ${shares}`);
+        }
+        let remaining = shares ?? outstanding;
+        const exercising = remaining;
+        
+        // Exercise the oldest grants first
+        grants.forEach(g => {
+            const take = Math.min(remaining, this._grantOutstanding(g));
+            if (take <= 0) return;
+            g.exercised += take;
+            remaining -= take;
+            this._optionRow(employee, g.pool)!.shares -= take;
+            
+            const paid = take * g.strikePrice;
+            const holding = this.capTable.find(entry => entry.name === employee && entry.shareClass === DEFAULT_CLASS_NAMES.common);
+            if (holding) {
+                holding.shares += take;
+                holding.invested = (holding.invested ?? 0) + paid;
+            } else {
+                this.capTable.push({ name: employee, shares: take, type: 'common', shareClass: this._defaultClass('common').name, holderId: g.holderId, invested: paid });
+            }
+        });
+        
+        this._dropEmptyOptionRows();
+        this._saveSnapshot(`Option Exercise: ${employee} (${exercising.toLocaleString()})`);
+        return this;
+    }
+
+    /**
+     * Cancel outstanding options (e.g. on departure) and return them to their pool
+     * @param employee Employee whose options are cancelled
+     * @param shares Number of options to cancel (defaults to all outstanding)
+     */
+    public cancelOptions(employee: string, shares?: number): Company {
+        this._assertOpen('cancel options');
+        if (shares !== undefined) {
+            assertWholeShares('shares', shares);
+        }
+        const grants = this._outstandingGrants(employee);
+        const outstanding = grants.reduce((sum, g) => sum + this._grantOutstanding(g), 0);
+        if (outstanding === 0) {
+            throw new CapTableError(`${employee} has no outstanding options to cancel`);
+        }
+        if (shares !== undefined && shares > outstanding) {
+            throw new CapTableError(`${employee} has only ${outstanding} outstanding options, cannot cancel ${shares}`);
+        }
+        let remaining = shares ?? outstanding;
+        const cancelling = remaining;
+        
+        // Cancel the most recent grants first
+        [...grants].reverse().forEach(g => {
+            const take = Math.min(remaining, this._grantOutstanding(g));
+            if (take <= 0) return;
+            g.cancelled += take;
+            remaining -= take;
+            this._optionRow(employee, g.pool)!.shares -= take;
+            this._pools().find(p => p.name === g.pool)!.shares += take;
+        });
+        
+        this._dropEmptyOptionRows();
+        this._saveSnapshot(`Option Cancellation: ${employee} (${cancelling.toLocaleString()} returned to pool)`);
+        return this;
+    }
+
+    /**
+     * Founder stock and option grants that vest, each with the shares still subject to its schedule
+     */
+    private _vestingHoldings(): VestingHolding[] {
+        return [
+            ...this.restrictedStock.map(stock => ({
+                kind: 'stock' as const,
+                name: stock.name,
+                holderId: stock.holderId,
+                shares: stock.shares - stock.repurchased,
+                startDate: stock.startDate,
+                record: stock
+            })),
+            ...this.optionGrants.map(g => ({
+                kind: 'options' as const,
+                name: g.employee,
+                holderId: g.holderId,
+                shares: g.shares - g.cancelled,
+                startDate: g.vesting.startDate ?? g.grantDate,
+                record: g
+            }))
+        ];
+    }
+
+    /**
+     * Shares of a holding vested by a date: on schedule until any departure, plus accelerated shares
+     */
+    private _vested(holding: VestingHolding, asOf: string): number {
+        const { shares, vesting, acceleratedShares, departureDate } = holding.record;
+        const until = departureDate !== undefined && departureDate < asOf ? departureDate : asOf;
+        return Math.min(holding.shares, vestedShares(shares, vesting, holding.startDate, until) + acceleratedShares);
+    }
+
+    /**
+     * Vest early part of the unvested shares of holdings whose acceleration has the given trigger
+     * @param holdings Holdings to consider
+     * @param trigger Trigger that fired
+     * @param date Date it fired
+     */
+    private _accelerate(holdings: VestingHolding[], trigger: AccelerationTrigger, date?: string): void {
+        holdings
+            .filter(h => h.record.vesting.acceleration?.trigger === trigger && h.record.departureDate === undefined)
+            .forEach(h => {
+                const unvested = h.shares - this._vested(h, date!);
+                const percent = h.record.vesting.acceleration!.percent ?? 100;
+                h.record.acceleratedShares += Math.floor((unvested * percent) / 100);
+            });
+    }
+
+    /**
+     * How much of each founder's stock and each option grant has vested by a date
+     * @param asOf ISO date (YYYY-MM-DD)
+     */
+    public vestingStatus(asOf: string): VestingStatus[] {
+        assertDate('asOf', asOf);
+        return this._vestingHoldings().map(h => {
+            const vested = this._vested(h, asOf);
+            return {
+                name: h.name,
+                holderId: h.holderId,
+                kind: h.kind,
+                shares: h.shares,
+                vested,
+                unvested: h.shares - vested,
+                startDate: h.startDate,
+                ...vestingDates(h.record.vesting, h.startDate),
+                acceleratedShares: h.record.acceleratedShares,
+                departureDate: h.record.departureDate
+            };
+        });
+    }
+
+    /**
+     * Log vested and unvested founder stock and options as of a date
+     * @param asOf ISO date (YYYY-MM-DD)
+     */
+    public logVesting(asOf: string): Company {
+        console.log(`Vesting as of ${asOf}:`);
+        this.vestingStatus(asOf).forEach(v => {
+            const pct = v.shares > 0 ? (v.vested / v.shares) * 100 : 100;
+            const accelerated = v.acceleratedShares > 0 ? `, ${v.acceleratedShares} accelerated` : '';
+            const departed = v.departureDate ? `, departed ${v.departureDate}` : '';
+            console.log(`${v.name} (${v.kind}): ${v.vested} of ${v.shares} vested (${pct.toFixed(2)}%), cliff ${v.cliffDate}, fully vested ${v.vestedDate}${accelerated}${departed}`);
+        });
+        return this;
+    }
+
+    /**
+     * A founder or employee leaves: vesting stops, unvested options return to their pool and
+     * unvested founder stock is repurchased and cancelled. Leaving without cause after an
+     * acquisition first accelerates double-trigger schedules.
+     * @param name Founder or employee
+     * @param date ISO departure date (YYYY-MM-DD)
+     * @param options Whether the termination is without cause, and the repurchase terms
+     */
+    public depart(name: string, date: string, options: DepartureOptions = {}): Company {
+        this._assertOpen('record a departure', true);
+        assertDate('date', date);
+        if (options.price !== undefined) {
+            assertNonNegative('options.price', options.price);
+        }
+        const holdings = this._vestingHoldings().filter(h => h.name === name && h.record.departureDate === undefined);
+        if (holdings.length === 0) {
+            throw new CapTableError(`${name} holds no vesting stock or options`);
+        }
+        
+        const acquired = this.changeOfControl && (this.changeOfControl.date === undefined || this.changeOfControl.date <= date);
+        if (options.withoutCause && acquired) {
+            this._accelerate(holdings, 'double', date);
+        }
+        
+        let repurchased = 0;
+        let cancelled = 0;
+        holdings.forEach(h => {
+            const unvested = h.shares - this._vested(h, date);
+            h.record.departureDate = date;
+            if (h.kind === 'stock') {
+                if (unvested > 0 && options.repurchaseUnvested !== false) {
+                    this._reduceHolding(this._holding(h.name, DEFAULT_CLASS_NAMES.common), unvested);
+                    h.record.repurchased += unvested;
+                    repurchased += unvested;
+                }
+                return;
+            }
+            // Only options still outstanding can be cancelled
+            const take = Math.min(unvested, this._grantOutstanding(h.record));
+            if (take > 0) {
+                h.record.cancelled += take;
+                this._optionRow(name, h.record.pool)!.shares -= take;
+                this._pools().find(p => p.name === h.record.pool)!.shares += take;
+                cancelled += take;
+            }
+        });
+        this._dropEmptyOptionRows();
+        this.totalShares = this.capTable.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+        
+        const priceStr = options.price !== undefined ? ` at $${options.price.toFixed(2)}` : '';
+        const outcome = [
+            repurchased > 0 ? `${repurchased.toLocaleString()} unvested shares repurchased${priceStr}` : undefined,
+            cancelled > 0 ? `${cancelled.toLocaleString()} unvested options returned to pool` : undefined
+        ].filter(Boolean).join(', ');
+        this._saveSnapshot(`Departure: ${name} (${outcome || 'fully vested'})`, date);
+        return this;
+    }
+
+    /**
+     * Find the row a holder's shares are taken from, by row name and optionally class
+     */
+    private _holding(name: string, shareClass?: string): CapTableEntry {
+        const rows = this.capTable.filter(entry =>
+            entry.name === name && !this._isExercisable(entry) && (shareClass === undefined || entry.shareClass === shareClass));
+        if (rows.length === 0) {
+            throw new CapTableError(`${name} holds no ${shareClass ?? 'issued'} shares`);
+        }
+        if (rows.length > 1) {
+            throw new CapTableError(`${name} holds shares in ${rows.map(r => r.shareClass).join(', ')}; pass shareClass`);
+        }
+        return rows[0];
+    }
+
+    /**
+     * Take shares out of a row, along with the matching part of its invested amount
+     * @returns The invested amount attributable to the shares taken
+     */
+    private _reduceHolding(row: CapTableEntry, shares: number): number {
+        if (shares > row.shares) {
+            throw new CapTableError(`${row.name} holds only ${row.shares} ${row.shareClass} shares, cannot part with ${shares}`);
+        }
+        const basis = row.invested !== undefined ? row.invested * (shares / row.shares) : undefined;
+        row.shares -= shares;
+        if (row.invested !== undefined) {
+            row.invested -= basis!;
+        }
+        this.capTable = this.capTable.filter(entry => entry !== row || entry.shares > 0);
+        return basis ?? 0;
+    }
+
+    /**
+     * Secondary sale: a holder sells shares to another holder. The shares keep their class, and the
+     * buyer takes over the seller's invested basis for them; the company raises nothing.
+     * @param from Name of the selling row (e.g. 'Alice' or 'Investor 1 (SAFE)')
+     * @param to Name of the buyer
+     * @param shares Number of shares sold
+     * @param options Class sold, price per share, buyer's stakeholder id and role, and date
+     */
+    public transferShares(from: string, to: string, shares: number, options: TransferOptions = {}): Company {
+        this._assertOpen('transfer shares');
+        assertWholeShares('shares', shares);
+        if (options.price !== undefined) {
+            assertNonNegative('options.price', options.price);
+        }
+        if (options.date !== undefined) {
+            assertDate('options.date', options.date);
+        }
+        const seller = this._holding(from, options.shareClass);
+        const basis = this._reduceHolding(seller, shares);
+        
+        const holder = this._registerHolder(to, options.holder, 'angel');
+        const buyer = this.capTable.find(entry => entry.name === to && entry.shareClass === seller.shareClass);
+        if (buyer) {
+            buyer.shares += shares;
+            buyer.invested = seller.invested !== undefined ? (buyer.invested ?? 0) + basis : buyer.invested;
+        } else {
+            this.capTable.push({
+                name: to,
+                shares,
+                type: seller.type,
+                shareClass: seller.shareClass,
+                holderId: holder.id,
+                invested: seller.invested !== undefined ? basis : undefined
+            });
+        }
+        
+        this.totalShares = this.capTable.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+        
+        const priceStr = options.price !== undefined ? ` at $${options.price.toFixed(2)}` : '';
+        this._saveSnapshot(`Secondary: ${from} to ${to} (${shares.toLocaleString()} ${seller.shareClass}${priceStr})`, options.date);
+        return this;
+    }
+
+    /**
+     * Company repurchase of a holder's shares, which are cancelled
+     * @param name Name of the row repurchased from
+     * @param shares Number of shares (defaults to all of them)
+     * @param options Class repurchased, price per share and date
+     */
+    public repurchaseShares(name: string, shares?: number, options: RepurchaseOptions = {}): Company {
+        this._assertOpen('repurchase shares');
+        if (shares !== undefined) {
+            assertWholeShares('shares', shares);
+        }
+        if (options.price !== undefined) {
+            assertNonNegative('options.price', options.price);
+        }
+        if (options.date !== undefined) {
+            assertDate('options.date', options.date);
+        }
+        const row = this._holding(name, options.shareClass);
+        const repurchased = shares ?? row.shares;
+        this._reduceHolding(row, repurchased);
+        this.totalShares = this.capTable.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+        
+        const priceStr = options.price !== undefined ? ` at $${options.price.toFixed(2)}` : '';
+        this._saveSnapshot(`Repurchase: ${name} (${repurchased.toLocaleString()} ${row.shareClass}${priceStr})`, options.date);
+        return this;
+    }
+
+    /**
+     * Forward or reverse stock split of every class, e.g. 10 for a 10:1 split, or 1 and 7 for a 1-for-7
+     * reverse split, which keeps the share arithmetic exact where 1/7 as a decimal would not. Per-share
+     * prices (issue, strike and exercise prices) are divided by the ratio, so preferences and round
+     * valuations are unchanged; SAFE caps are valuations and need no change. Fractional shares are
+     * rounded per holding under the rounding policy; options and warrants are rounded per grant or
+     * warrant. The conversion audit and rounding log are restated in post-split shares and prices.
+     * @param ratio New shares per old share, or per oldShares old shares
+     * @param oldShares Old shares the ratio applies to (defaults to 1)
+     */
+    public split(ratio: number, oldShares: number = 1): Company {
+        this._assertOpen('split the stock');
+        assertPositive('ratio', ratio);
+        assertPositive('oldShares', oldShares);
+        
+        const exactRatio = Fraction.from(ratio).div(oldShares);
+        const perShare = (value: number) => (value * oldShares) / ratio;
+        const shareCount = (value: number) => (value * ratio) / oldShares;
+        const price = this.sharePrice !== undefined ? Fraction.from(this.sharePrice).div(exactRatio) : undefined;
+        this.capTable
+            .filter(entry => !entry.pool && entry.type !== 'warrant')
+            .forEach(entry => {
+                const exact = Fraction.from(entry.shares).times(exactRatio);
+                entry.shares = this._roundShares(entry.name, exact, entry.type === 'option' ? undefined : price);
+            });
+        this.shareClasses.forEach(c => {
+            c.originalIssuePrice = perShare(c.originalIssuePrice);
+        });
+        // Grants and warrants are rounded under the policy and logged; their exercised, cancelled
+        // and accelerated counts, and restricted stock (logged with its cap table row), are not
+        const scale = (shares: number) => roundShares(Fraction.from(shares).times(exactRatio), this.rounding);
+        this.optionGrants.forEach(g => {
+            g.shares = this._roundShares(`${g.employee} (Options)`, Fraction.from(g.shares).times(exactRatio));
+            g.exercised = scale(g.exercised);
+            g.cancelled = scale(g.cancelled);
+            g.acceleratedShares = scale(g.acceleratedShares);
+            g.strikePrice = perShare(g.strikePrice);
+        });
+        this.restrictedStock.forEach(stock => {
+            stock.shares = scale(stock.shares);
+            stock.repurchased = scale(stock.repurchased);
+            stock.acceleratedShares = scale(stock.acceleratedShares);
+        });
+        this.warrants.forEach(w => {
+            w.shares = this._roundShares(`${w.name} (Warrant)`, Fraction.from(w.shares).times(exactRatio));
+            w.exercisePrice = perShare(w.exercisePrice);
+        });
+        // Restate earlier conversion math and rounding in post-split shares and prices
+        [...this.safes, ...this.notes].forEach(({ conversion }) => {
+            if (!conversion) return;
+            (['roundPrice', 'discountPrice', 'capPrice', 'price'] as const).forEach(key => {
+                if (conversion[key] !== undefined) conversion[key] = perShare(conversion[key]!);
+            });
+            (['capitalization', 'exactShares', 'shares', 'remainder'] as const).forEach(key => {
+                if (conversion[key] !== undefined) conversion[key] = shareCount(conversion[key]!);
+            });
+        });
+        this.roundingLog.forEach(r => {
+            r.exactShares = shareCount(r.exactShares);
+            r.shares = shareCount(r.shares);
+            r.remainder = shareCount(r.remainder);
+        });
+        if (this.sharePrice !== undefined) {
+            this.sharePrice = perShare(this.sharePrice);
+        }
+        // Keep each option and warrant row equal to the outstanding grants or warrants behind it
+        this.capTable
+            .filter(entry => entry.pool || entry.type === 'warrant')
+            .forEach(entry => {
+                entry.shares = this._tranches(entry)!.reduce((sum, t) => sum + t.shares, 0);
+            });
+        this._dropEmptyOptionRows();
+        this.totalShares = this.capTable.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+        
+        const forward = ratio >= oldShares;
+        const ratioStr = oldShares !== 1 ? `${ratio}:${oldShares}` : forward ? `${ratio}:1` : `1:${Number((1 / ratio).toFixed(4))}`;
+        this._saveSnapshot(`${forward ? 'Stock Split' : 'Reverse Split'}: ${ratioStr}`);
+        return this;
+    }
+
+    /**
+     * Issue a warrant to buy common shares, e.g. alongside venture debt
+     * @param name Warrant holder
+     * @param terms Share count or loan coverage, exercise price and expiry
+     */
+    public issueWarrant(name: string, terms: WarrantTerms): Company {
+        this._assertOpen('issue a warrant');
+        assertPositive('terms.exercisePrice', terms.exercisePrice);
+        assertDate('terms.expiryDate', terms.expiryDate);
+        if (terms.issueDate !== undefined) {
+            assertDate('terms.issueDate', terms.issueDate);
+        }
+        if ((terms.shares === undefined) === (terms.coverage === undefined)) {
+            throw new ValidationError('terms', terms, 'must give either shares or coverage');
+        }
+        if (terms.coverage) {
+            assertPositive('terms.coverage.percent', terms.coverage.percent);
+            assertPositive('terms.coverage.amount', terms.coverage.amount);
+        }
+        const coverage = terms.coverage &&
+            Fraction.from(terms.coverage.percent).div(100).times(terms.coverage.amount).div(terms.exercisePrice);
+        const shares = terms.shares ?? roundShares(coverage!, this.rounding);
+        assertWholeShares('terms.shares', shares);
+        
+        const holder = this._registerHolder(name, terms.holder, 'fund', true);
+        if (coverage) {
+            this._recordRounding(`${name} (Warrant)`, coverage, shares);
+        }
+        this.warrants.push({
+            name,
+            holderId: holder.id,
+            shares,
+            exercisePrice: terms.exercisePrice,
+            expiryDate: terms.expiryDate,
+            issueDate: terms.issueDate,
+            exercised: false,
+            expired: false
+        });
+        
+        const row = this.capTable.find(entry => entry.name === `${name} (Warrant)`);
+        if (row) {
+            row.shares += shares;
+            this.totalShares += shares;
+        } else {
+            this._addEntity(`${name} (Warrant)`, shares, this._defaultClass('warrant'), holder.id);
+        }
+        
+        this._saveSnapshot(`Warrant: ${name} (${shares.toLocaleString()} at $${terms.exercisePrice.toFixed(2)}, expires ${terms.expiryDate})`, terms.issueDate);
+        return this;
+    }
+
+    /**
+     * Exercise a holder's outstanding warrants for cash into common shares
+     * @param name Warrant holder
+     */
+    public exerciseWarrant(name: string): Company {
+        this._assertOpen('exercise a warrant');
+        const outstanding = this.warrants.filter(w => w.name === name && !w.exercised && !w.expired);
+        if (outstanding.length === 0) {
+            throw new CapTableError(`${name} holds no outstanding warrants`);
+        }
+        const shares = outstanding.reduce((sum, w) => sum + w.shares, 0);
+        const paid = outstanding.reduce((sum, w) => sum + w.shares * w.exercisePrice, 0);
+        outstanding.forEach(w => {
+            w.exercised = true;
+        });
+        
+        const row = this.capTable.find(entry => entry.name === `${name} (Warrant)`)!;
+        row.shares -= shares;
+        this.capTable = this.capTable.filter(entry => entry !== row || entry.shares > 0);
+        const holding = this.capTable.find(entry => entry.name === name && entry.shareClass === DEFAULT_CLASS_NAMES.common);
+        if (holding) {
+            holding.shares += shares;
+            holding.invested = (holding.invested ?? 0) + paid;
+        } else {
+            this.capTable.push({ name, shares, type: 'common', shareClass: this._defaultClass('common').name, holderId: row.holderId, invested: paid });
+        }
+        
+        this._saveSnapshot(`Warrant Exercise: ${name} (${shares.toLocaleString()})`);
+        return this;
+    }
+
+    /**
+     * Cancel warrants that reached their expiry date unexercised
+     * @param asOf ISO date (YYYY-MM-DD)
+     */
+    public expireWarrants(asOf: string): Company {
+        this._assertOpen('expire warrants');
+        assertDate('asOf', asOf);
+        const expiring = this.warrants.filter(w => !w.exercised && !w.expired && w.expiryDate <= asOf);
+        if (expiring.length === 0) {
+            return this;
+        }
+        expiring.forEach(w => {
+            w.expired = true;
+            this.capTable.find(entry => entry.name === `${w.name} (Warrant)`)!.shares -= w.shares;
+        });
+        this.capTable = this.capTable.filter(entry => entry.type !== 'warrant' || entry.shares > 0);
+        this.totalShares = this.capTable.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+        
+        this._saveSnapshot(`Warrants Expired: ${expiring.map(w => w.name).join(', ')}`, asOf);
+        return this;
+    }
+
+    /**
+     * Warrants issued so far, including exercised and expired ones
+     */
+    public getWarrants(): Warrant[] {
+        return this.warrants.map(w => ({ ...w }));
+    }
+
+    /**
+     * Fractional share entitlements rounded so far, with any cash paid in lieu of them
+     */
+    public getRoundingLog(): RoundingRecord[] {
+        return this.roundingLog.map(r => ({ ...r }));
+    }
+
+    /**
+     * Check that the cap table ties out: every row is a whole number of shares, option and warrant
+     * rows match the grants and warrants behind them, and the rows add up to the total.
+     * Every snapshot is checked, so a mismatch here means the state was edited by hand.
+     */
+    public reconcile(): Reconciliation {
+        const problems: string[] = [];
+        this.capTable.forEach(entry => {
+            if (!Number.isSafeInteger(entry.shares) || entry.shares < 0) {
+                problems.push(`${entry.name} holds ${entry.shares} shares, not a whole number`);
+            }
+            const tranches = this._tranches(entry);
+            const outstanding = tranches?.reduce((sum, t) => sum + t.shares, 0);
+            if (outstanding !== undefined && outstanding !== entry.shares) {
+                problems.push(`${entry.name} holds ${entry.shares} shares but ${outstanding} are outstanding`);
+            }
+        });
+        const rowShares = this.capTable.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+        if (rowShares !== this.totalShares) {
+            problems.push(`rows add up to ${rowShares} shares as converted, not the total of ${this.totalShares}`);
+        }
+        return {
+            ok: problems.length === 0,
+            totalShares: this.totalShares,
+            rowShares,
+            issuedShares: this._issuedShares(),
+            problems
+        };
+    }
+
+    /**
+     * Voting power and control after every event: votes by class and holder, who elects each
+     * board seat, whether the founders control the common vote and the board, and who controls
+     * each protective provision
+     * @param provisions Votes to check (defaults to majorities of the preferred, the common and everyone)
+     */
+    public votingAnalysis(provisions?: ProtectiveProvision[]): VotingAnalysis[] {
+        return this.history.map(snapshot => analyzeVoting(snapshot, provisions));
+    }
+
+    /**
+     * Log voting power and control of the current cap table to console
+     * @param provisions Votes to check
+     */
+    public logVoting(provisions?: ProtectiveProvision[]): Company {
+        console.log(formatVoting(analyzeVoting(this.history[this.history.length - 1], provisions)));
+        return this;
+    }
+
+    /**
+     * Each current holding as issued and outstanding, fully diluted, and treasury-method diluted
+     * @param sharePrice Market price per share (defaults to the latest round price)
+     */
+    public ownership(sharePrice?: number): OwnershipBasis[] {
+        if (sharePrice !== undefined) {
+            assertPositive('sharePrice', sharePrice);
+        }
+        return ownershipBases(this.history[this.history.length - 1], sharePrice ?? this.sharePrice);
+    }
+
+    /**
+     * Log each current holding on all three ownership bases to console
+     * @param sharePrice Market price per share (defaults to the latest round price)
+     */
+    public logOwnership(sharePrice?: number): Company {
+        const price = sharePrice ?? this.sharePrice;
+        const priceStr = price !== undefined ? `$${price.toFixed(4)}` : 'no share price';
+        console.log(`Ownership (issued / fully diluted / treasury method at ${priceStr}):`);
+        this.ownership(sharePrice).forEach(o => {
+            console.log(`${o.name}: ${o.issuedPercentage.toFixed(2)}% / ${o.fullyDilutedPercentage.toFixed(2)}% / ${o.treasuryPercentage.toFixed(2)}%`);
+        });
+        return this;
+    }
+
+    /**
+     * Report granted, exercised, cancelled and unallocated options for each pool
+     */
+    public poolStatus(): OptionPoolStatus[] {
+        return this._pools().map(pool => {
+            const grants = this.optionGrants.filter(g => g.pool === pool.name);
+            const granted = grants.reduce((sum, g) => sum + g.shares, 0);
+            const exercised = grants.reduce((sum, g) => sum + g.exercised, 0);
+            const cancelled = grants.reduce((sum, g) => sum + g.cancelled, 0);
+            const outstanding = granted - exercised - cancelled;
+            return {
+                pool: pool.name,
+                size: pool.shares + outstanding + exercised,
+                granted,
+                exercised,
+                cancelled,
+                outstanding,
+                unallocated: pool.shares
+            };
+        });
+    }
+
+    /**
+     * SAFEs signed so far, with conversion details for those that have converted
+     */
+    public getSafes(): Safe[] {
+        return JSON.parse(JSON.stringify(this.safes));
+    }
+
+    /**
+     * Convertible notes issued so far, with conversion details for those that have converted
+     */
+    public getNotes(): ConvertibleNote[] {
+        return JSON.parse(JSON.stringify(this.notes));
+    }
+
+    /**
+     * Audit trail of every SAFE and note conversion: SAFEs then notes, each in the order signed
+     */
+    public getConversions(): ConversionAuditEntry[] {
+        const instruments: { instrument: 'SAFE' | 'Note'; source: Safe | ConvertibleNote }[] = [
+            ...this.safes.map(source => ({ instrument: 'SAFE' as const, source })),
+            ...this.notes.map(source => ({ instrument: 'Note' as const, source }))
+        ];
+        return instruments
+            .filter(({ source }) => source.conversion)
+            .map(({ instrument, source }) => ({
+                ...source.conversion!,
+                instrument,
+                name: source.name,
+                holderId: source.holderId
+            }));
+    }
+
+    /**
+     * Options ledger, one entry per grant
+     */
+    public getOptionGrants(): OptionGrant[] {
+        return this.optionGrants.map(g => ({ ...g, vesting: { ...g.vesting } }));
+    }
+
+    private _optionRow(employee: string, pool: string): CapTableEntry | undefined {
+        return this.capTable.find(entry => entry.name === `${employee} (Options)` && entry.pool === pool);
+    }
+
+    private _dropEmptyOptionRows(): void {
+        this.capTable = this.capTable.filter(entry => !(entry.pool && entry.shares === 0));
+    }
+
+    private _outstandingGrants(employee: string): OptionGrant[] {
+        return this.optionGrants.filter(g => g.employee === employee && this._grantOutstanding(g) > 0);
+    }
+
+    private _grantOutstanding(grant: OptionGrant): number {
+        return grant.shares - grant.exercised - grant.cancelled;
+    }
+
+    /**
+     * Current position of each stakeholder, rolled up across all of its instruments
+     */
+    public holdings(): HolderSummary[] {
+        return this.stakeholders
+            .map(h => {
+                const rows = this.capTable.filter(entry => entry.holderId === h.id);
+                const asConvertedShares = rows.reduce((sum, entry) => sum + this._asConverted(entry), 0);
+                return {
+                    ...h,
+                    shares: rows.reduce((sum, entry) => sum + entry.shares, 0),
+                    asConvertedShares,
+                    percentage: (asConvertedShares / this.totalShares) * 100,
+                    instruments: rows.map(entry => entry.name)
+                };
+            })
+            .filter(h => h.instruments.length > 0);
+    }
+
+    /**
+     * Registered stakeholders with their roles
+     */
+    public getStakeholders(): Stakeholder[] {
+        return this.stakeholders.map(h => ({ ...h }));
+    }
+
+    /**
+     * Render the current cap table, holder roll-ups, pools, share classes and
+     * outstanding instruments as text
+     */
+    public formatEquity(): string {
+        const lines: string[] = ['Cap Table:'];
+        const total = this.totalShares;
+        this.capTable.forEach(r => {
+            const asConverted = this._asConverted(r);
+            const pct = ((asConverted / total) * 100).toFixed(2);
+            const conversion = asConverted !== r.shares ? `, ${asConverted} as-converted` : '';
+            lines.push(`${r.name}: ${r.shares} shares${conversion} (${pct}%) [${r.shareClass}]`);
+        });
+        lines.push(`Total shares: ${total}`);
+        lines.push(`Issued and outstanding: ${this._issuedShares()} (excluding options and warrants)`);
+        
+        // Roll up holders that hold through more than one instrument
+        const multiInstrument = this.holdings().filter(h => h.instruments.length > 1);
+        if (multiInstrument.length > 0) {
+            lines.push('\nHolders:');
+            multiInstrument.forEach(h => {
+                lines.push(`${h.name}: ${h.asConvertedShares} shares (${h.percentage.toFixed(2)}%) [${h.role}] via ${h.instruments.join(', ')}`);
+            });
+        }
+        
+        // Show what is left in each pool once grants are taken out
+        if (this.optionGrants.length > 0) {
+            lines.push('\nOption Pools:');
+            this.poolStatus().forEach(p => {
+                lines.push(`${p.pool}: ${p.size} reserved, ${p.outstanding} outstanding, ${p.exercised} exercised, ${p.cancelled} cancelled, ${p.unallocated} unallocated`);
+            });
+        }
+        
+        // Show warrants that can still be exercised
+        const outstandingWarrants = this.warrants.filter(w => !w.exercised && !w.expired);
+        if (outstandingWarrants.length > 0) {
+            lines.push('\nOutstanding Warrants:');
+            outstandingWarrants.forEach(w => {
+                lines.push(`${w.name}: ${w.shares} shares at $${w.exercisePrice.toFixed(4)}, expires ${w.expiryDate}`);
+            });
+        }
+        
+        // Show the price paid per share in each priced class
+        const pricedClasses = this.shareClasses.filter(c => c.originalIssuePrice > 0);
+        if (pricedClasses.length > 0) {
+            lines.push('\nShare Classes:');
+            pricedClasses.forEach(c => {
+                const participation = c.participating ? 'participating' : 'non-participating';
+                const ratio = c.conversionRatio !== 1 ? `, converts ${c.conversionRatio.toFixed(4)}:1` : '';
+                lines.push(`${c.name}: $${c.originalIssuePrice.toFixed(4)}/share (${c.liquidationMultiple}x ${participation}, seniority ${c.seniority}${ratio})`);
+            });
+        }
+        
+        // Show how every converted SAFE and note arrived at its share count
+        const conversions = this.getConversions();
+        if (conversions.length > 0) {
+            lines.push('\nConversions:');
+            conversions.forEach(c => {
+                const price = (p: number) => `$${p.toFixed(4)}`;
+                const candidates = [
+                    c.roundPrice !== undefined ? `round ${price(c.roundPrice)}` : undefined,
+                    c.discountPrice !== undefined ? `discount ${price(c.discountPrice)}` : undefined,
+                    c.capPrice !== undefined ? `cap ${price(c.capPrice)} over ${c.capitalization!.toLocaleString()} shares` : undefined
+                ].filter(Boolean).join(', ');
+                const remainder = `${c.remainder >= 0 ? '+' : ''}${c.remainder.toFixed(4)}`;
+                lines.push(`${c.name} (${c.instrument}) in ${c.round}: $${Math.round(c.amount).toLocaleString()} at ${price(c.price)} (${c.method}) = ${Number(c.shares.toFixed(4))} shares [${c.shareClass}]`);
+                lines.push(`  ${candidates}; ${c.exactShares.toFixed(4)} exact, ${remainder} rounding`);
+            });
+        }
+        
+        // Show fractional shares rounded away at issuance, and cash paid in lieu of them
+        if (this.roundingLog.length > 0) {
+            lines.push(`\nRounding (${this.rounding}):`);
+            this.roundingLog.forEach(r => {
+                const remainder = `${r.remainder >= 0 ? '+' : ''}${r.remainder.toFixed(4)}`;
+                const cash = r.cashOut !== undefined ? `, $${r.cashOut.toFixed(2)} paid in lieu` : '';
+                lines.push(`${r.name}: ${r.exactShares.toFixed(4)} exact = ${Number(r.shares.toFixed(4))} shares, ${remainder}${cash} [${r.label}]`);
+            });
+            const net = this.roundingLog.reduce((sum, r) => sum + r.remainder, 0);
+            const cash = this.roundingLog.reduce((sum, r) => sum + (r.cashOut ?? 0), 0);
+            lines.push(`Net: ${net >= 0 ? '+' : ''}${net.toFixed(4)} shares${cash > 0 ? `, $${cash.toFixed(2)} paid in lieu` : ''}`);
+        }
+        
+        // Show how SAFEs were settled in an acquisition or dissolution
+        const settledSafes = this.safes.filter(s => s.settlement);
+        if (settledSafes.length > 0) {
+            lines.push('\nSettled SAFEs:');
+            settledSafes.forEach(s => {
+                const { label, method, shares, payout } = s.settlement!;
+                const how = method === 'conversion' ? `converted into ${shares} common shares` : 'cashed out';
+                lines.push(`${s.name}: $${Math.round(payout).toLocaleString()} on $${s.amount.toLocaleString()}, ${how} [${label}]`);
+            });
+        }
+        
+        // Show any unconverted SAFEs
+        const unconvertedSafes = this._outstandingSafes();
+        if (unconvertedSafes.length > 0) {
+            lines.push('\nUnconverted SAFEs:');
+            unconvertedSafes.forEach(s => {
+                const capInfo = s.cap === 'uncapped' ? 'uncapped' : `$${s.cap.toLocaleString()} cap`;
+                const discountInfo = s.discount ? ` with ${s.discount}% discount` : '';
+                const mfnInfo = s.mfnUpgrades ? `, MFN from ${s.mfnUpgrades.map(u => u.from).join(', ')}` : '';
+                const rights = [
+                    s.rights?.proRata ? 'pro-rata' : undefined,
+                    s.rights?.mfn ? 'MFN' : undefined,
+                    ...(s.rights?.terms ?? [])
+                ].filter(Boolean).map(r => `, ${r}`).join('');
+                lines.push(`${s.name}: $${s.amount.toLocaleString()} (${capInfo}${discountInfo}${mfnInfo}) [${s.type}${rights}]`);
+            });
+        }
+        
+        // Show outstanding notes with interest accrued to maturity
+        const outstandingNotes = this.notes.filter(n => !n.converted && !n.repaid);
+        if (outstandingNotes.length > 0) {
+            lines.push('\nOutstanding Notes:');
+            outstandingNotes.forEach(n => {
+                const capInfo = n.cap === 'uncapped' ? 'uncapped' : `$${n.cap.toLocaleString()} cap`;
+                const discountInfo = n.discount ? ` with ${n.discount}% discount` : '';
+                const due = Math.round(conversionAmount(n, n.maturityDate)).toLocaleString();
+                lines.push(`${n.name}: $${n.principal.toLocaleString()} at ${n.interestRate}% ${n.interestType} (${capInfo}${discountInfo}), $${due} due ${n.maturityDate}`);
+            });
+        }
+        
+        return lines.join('\n');
+    }
+
+    public logEquity(): Company {
+        console.log(this.formatEquity());
+        return this;
+    }
+    
+    /**
+     * Copy this company so that a divergent sequence of events can be applied to it
+     */
+    public fork(): Company {
+        return Company.fromJSON(this.toJSON());
+    }
+
+    /**
+     * Latest cap table snapshot
+     */
+    public snapshot(): EquitySnapshot {
+        return JSON.parse(JSON.stringify(this.history[this.history.length - 1]));
+    }
+
+    /**
+     * Cap table as of a date: the last snapshot on or before it, with undated events
+     * taking the date of the event before them
+     * @param date ISO date (YYYY-MM-DD)
+     */
+    public snapshotAt(date: string): EquitySnapshot {
+        assertDate('date', date);
+        let current: string | undefined;
+        let found: EquitySnapshot | undefined;
+        this.history.forEach(snapshot => {
+            current = snapshot.date ?? current;
+            if (current !== undefined && current <= date) {
+                found = snapshot;
+            }
+        });
+        if (!found) {
+            throw new CapTableError(`No dated events on or before ${date}`);
+        }
+        return JSON.parse(JSON.stringify(found));
+    }
+
+    /**
+     * Capture the full internal state so the simulation can be saved and resumed later
+     */
+    public toJSON(): CompanyState {
+        const state: CompanyState = {
+            schemaVersion: COMPANY_SCHEMA_VERSION,
+            capTable: this.capTable,
+            totalShares: this.totalShares,
+            shareClasses: this.shareClasses,
+            stakeholders: this.stakeholders,
+            safes: this.safes,
+            notes: this.notes,
+            optionGrants: this.optionGrants,
+            warrants: this.warrants,
+            sharePrice: this.sharePrice,
+            rounding: this.rounding,
+            roundingLog: this.roundingLog,
+            restrictedStock: this.restrictedStock,
+            changeOfControl: this.changeOfControl,
+            closed: this.closed,
+            board: this.board,
+            rounds: this.rounds,
+            history: this.history
+        };
+        // Deep copy so later events on this company don't leak into the saved state
+        return JSON.parse(JSON.stringify(state));
+    }
+
+    /**
+     * Restore a company saved with toJSON()
+     * @param state Saved state, or its JSON string
+     */
+    public static fromJSON(state: CompanyState | string): Company {
+        const saved: CompanyState = typeof state === 'string' ? JSON.parse(state) : JSON.parse(JSON.stringify(state));
+        // Version 1 predates warrants, version 2 the rounding policy, version 3 vesting,
+        // version 4 the board and version 5 round names; they are otherwise the same
+        if (![1, 2, 3, 4, 5, COMPANY_SCHEMA_VERSION].includes(saved.schemaVersion)) {
+            throw new CapTableError(`Unsupported company state schema version ${saved.schemaVersion} (expected ${COMPANY_SCHEMA_VERSION})`);
+        }
+        
+        // Restored field by field, without the initial cap table the constructor would issue
+        const company: Company = Object.create(Company.prototype);
+        company.shareCounter = 0;
+        company.pendingRounding = [];
+        company.capTable = saved.capTable;
+        company.totalShares = saved.totalShares;
+        company.shareClasses = saved.shareClasses;
+        company.stakeholders = saved.stakeholders;
+        company.safes = saved.safes;
+        company.notes = saved.notes;
+        company.optionGrants = saved.optionGrants.map(g => ({ ...g, acceleratedShares: g.acceleratedShares ?? 0 }));
+        company.warrants = saved.warrants ?? [];
+        company.sharePrice = saved.sharePrice;
+        company.rounding = saved.rounding ?? 'half-up';
+        company.roundingLog = saved.roundingLog ?? [];
+        company.restrictedStock = saved.restrictedStock ?? [];
+        company.changeOfControl = saved.changeOfControl;
+        company.closed = saved.closed;
+        // Before the board was tracked, the common stock elected one seat per founder
+        const founderSeats = saved.stakeholders.filter(h => h.role === 'founder').length;
+        company.board = saved.board ?? (founderSeats > 0 ? [{ electorate: 'common', seats: founderSeats }] : []);
+        company.rounds = saved.rounds ?? [];
+        company.history = saved.history;
+        return company;
+    }
+
+    /**
+     * Start a company from a ledger-style CSV of existing holdings in absolute shares
+     * (holder, class, shares and optionally issue price, type, id and role)
+     * @param csv CSV text
+     * @param config Rounding policy and formation date
+     */
+    public static fromLedgerCSV(csv: string, config: Omit<CompanyConfig, 'founders' | 'pools' | 'ledger'> = {}): Company {
+        return new Company({ ...config, ledger: parseLedgerCsv(csv) });
+    }
+
+    /**
+     * Distribute the proceeds of a sale of the company across the current cap table
+     * @param saleValue Net proceeds available to equity holders
+     * @param options Liquidation preference terms (defaults to 1x non-participating, pari passu)
+     */
+    public exit(saleValue: number, options: ExitOptions = {}): ExitWaterfall {
+        this._assertOpen('run an exit waterfall');
+        assertNonNegative('saleValue', saleValue);
+        const claims = this._safeClaims(options.event ?? 'acquisition');
+        return computeExitWaterfall(this.history[this.history.length - 1], saleValue, options, claims);
+    }
+
+    /**
+     * Sell the company, settling outstanding SAFEs: each receives the greater of its purchase amount
+     * and what it would get converting into common at its cap
+     * @param saleValue Net proceeds available to equity holders
+     * @param name Name of the event
+     * @param options Liquidation preference terms
+     */
+    public acquire(saleValue: number, name: string = 'Acquisition', options: ExitOptions = {}): Company {
+        this._assertOpen('sell the company');
+        assertNonNegative('saleValue', saleValue);
+        if (options.date !== undefined) {
+            assertDate('options.date', options.date);
+        } else if (this._vestingHoldings().some(h => h.record.vesting.acceleration?.trigger === 'single' && !h.record.departureDate)) {
+            throw new ValidationError('options.date', undefined, 'is required to accelerate single-trigger vesting');
+        }
+        return this._settleSafes('acquisition', saleValue, name, options);
+    }
+
+    /**
+     * Wind the company down, repaying outstanding SAFEs their purchase amounts pari passu with
+     * preferred and ahead of common, pro rata if the assets fall short
+     * @param netAssets Assets left for equity holders once creditors are paid
+     * @param name Name of the event
+     * @param options Liquidation preference terms
+     */
+    public dissolve(netAssets: number, name: string = 'Dissolution', options: ExitOptions = {}): Company {
+        this._assertOpen('dissolve the company');
+        assertNonNegative('netAssets', netAssets);
+        if (options.date !== undefined) {
+            assertDate('options.date', options.date);
+        }
+        return this._settleSafes('dissolution', netAssets, name, options);
+    }
+
+    /**
+     * Log the payout table of a sale of the company to console
+     * @param saleValue Net proceeds available to equity holders
+     * @param options Liquidation preference terms
+     */
+    public logExit(saleValue: number, options: ExitOptions = {}): Company {
+        const waterfall = this.exit(saleValue, options);
+        console.log(`${waterfall.label}:`);
+        waterfall.payouts.forEach(p => {
+            const converted = p.converted ? ', converted to common' : '';
+            console.log(`${p.name}: $${Math.round(p.total).toLocaleString()} (${p.percentage.toFixed(2)}%) [${p.shareClass}${converted}]`);
+        });
+        if (waterfall.undistributed > 0) {
+            console.log(`Undistributed: $${Math.round(waterfall.undistributed).toLocaleString()}`);
+        }
+        return this;
+    }
+
+    /**
+     * Generate a visualization of founder and investor take-home across several exit values
+     * @param saleValues Sale values to compare (e.g. [20_000_000, 200_000_000])
+     * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+     * @param options Liquidation preference terms
+     * @param width Width of the output image (default: 1600px for high resolution)
+     * @param format Output format: 'png', 'svg' or 'pdf' (defaults to the file extension)
+     */
+    public plotExit(
+        saleValues: number[],
+        outputPath: string = 'exit-waterfall.png',
+        options: ExitOptions = {},
+        width: number = 1600,
+        format?: ChartFormat
+    ): Company {
+        const waterfalls = saleValues.map(v => this.exit(v, { ...options, label: undefined }));
+        plotExitWaterfall(waterfalls, outputPath, width, format);
+        return this;
+    }
+
+    /**
+     * Generate a visualization of equity dilution over time
+     * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+     * @param width Width of the output image (default: 1600px for high resolution)
+     * @param format Output format: 'png', 'svg' or 'pdf' (defaults to the file extension)
+     * @param showDates Show the date of each event next to its label
+     */
+    public plot(outputPath: string = 'equity-dilution.png', width: number = 1600, format?: ChartFormat, showDates: boolean = false): Company {
+        plotEquityDilution(this.history, outputPath, width, undefined, format, showDates);
+        return this;
+    }
+
+    /**
+     * Generate a chart of each holder's ownership percentage across every event
+     * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+     * @param mode 'area' (stacked to 100%) or 'line'
+     * @param width Width of the output image (default: 1600px for high resolution)
+     * @param format Output format: 'png', 'svg' or 'pdf' (defaults to the file extension)
+     */
+    public plotOwnership(
+        outputPath: string = 'ownership-over-time.png',
+        mode: 'line' | 'area' = 'area',
+        width: number = 1600,
+        format?: ChartFormat
+    ): Company {
+        plotOwnershipOverTime(this.history, outputPath, width, mode, format);
+        return this;
+    }
+
+    /**
+     * Generate a grid of pie (or donut) charts, one per event
+     * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+     * @param donut Draw donuts with the founders' combined share in the middle
+     * @param width Width of the output image (default: 1600px for high resolution)
+     * @param format Output format: 'png', 'svg' or 'pdf' (defaults to the file extension)
+     */
+    public plotPies(
+        outputPath: string = 'ownership-pies.png',
+        donut: boolean = false,
+        width: number = 1600,
+        format?: ChartFormat
+    ): Company {
+        plotOwnershipPies(this.history, outputPath, width, donut, format);
+        return this;
+    }
+
+    /**
+     * Generate a control chart: for every event, who holds the stockholder vote, the common
+     * vote and the board seats
+     * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+     * @param width Width of the output image (default: 1600px)
+     * @param format Output format (defaults to the file extension)
+     */
+    public plotControl(outputPath: string = 'control.png', width: number = 1600, format?: ChartFormat): Company {
+        plotControl(this.history, outputPath, width, format);
+        return this;
+    }
+
+    /**
+     * Write a self-contained HTML report with an interactive dilution chart, a sortable
+     * cap table per event and the SAFEs and notes with their conversion details
+     * @param outputPath File path to save the report
+     * @param title Page title
+     */
+    public report(outputPath: string = 'cap-table-report.html', title?: string): Company {
+        writeHtmlReport(this.history, this.safes, this.notes, outputPath, title);
+        return this;
+    }
+
+    /**
+     * Write the current cap table, or every snapshot's, to a CSV file
+     * @param outputPath File path to save the CSV
+     * @param allSnapshots Whether to write one block of lines per snapshot instead of the latest
+     */
+    public exportCSV(outputPath: string = 'cap-table.csv', allSnapshots: boolean = false): Company {
+        writeCsv(this.history, outputPath, allSnapshots);
+        return this;
+    }
+
+    /**
+     * Write an XLSX workbook with a summary sheet of ownership after every event
+     * and one cap table sheet per snapshot
+     * @param outputPath File path to save the workbook
      */
-    public plot(outputPath: string = 'equity-dilution.png', width: number = 1600): Company {
-        plotEquityDilution(this.history, outputPath, width);
+    public exportXLSX(outputPath: string = 'cap-table.xlsx'): Company {
+        writeXlsx(this.history, outputPath);
         return this;
     }
-}
\ No newline at end of file
+}
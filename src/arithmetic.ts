@@ -0,0 +1,126 @@
+import { RoundingPolicy } from './types.js';
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+};
+
+/**
+ * Exact rational number, so share and price math does not drift the way floating point does.
+ * Inputs are taken at their shortest decimal representation (0.1 is exactly 1/10).
+ */
+export class Fraction {
+  public readonly n: bigint;
+  public readonly d: bigint;
+
+  constructor(n: bigint, d: bigint = 1n) {
+    if (d === 0n) {
+      throw new RangeError('Fraction with zero denominator');
+    }
+    const sign = d < 0n ? -1n : 1n;
+    const divisor = gcd(n, d) || 1n;
+    this.n = (sign * n) / divisor;
+    this.d = (sign * d) / divisor;
+  }
+
+  /**
+   * Exact value of a finite number as written in decimal, e.g. 4.75 is 19/4
+   */
+  public static from(value: number | Fraction): Fraction {
+    if (value instanceof Fraction) return value;
+    if (!Number.isFinite(value)) {
+      throw new RangeError(`Cannot represent ${value} exactly`);
+    }
+    const match = String(value).match(/^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/);
+    if (!match) {
+      throw new RangeError(`Cannot represent ${value} exactly`);
+    }
+    const [, sign, whole, decimals = '', exponent = '0'] = match;
+    const scale = Number(exponent) - decimals.length;
+    const digits = BigInt(`${sign}${whole}${decimals}`);
+    return scale >= 0 ?
+      new Fraction(digits * 10n ** BigInt(scale)) :
+      new Fraction(digits, 10n ** BigInt(-scale));
+  }
+
+  public plus(other: number | Fraction): Fraction {
+    const o = Fraction.from(other);
+    return new Fraction(this.n * o.d + o.n * this.d, this.d * o.d);
+  }
+
+  public minus(other: number | Fraction): Fraction {
+    const o = Fraction.from(other);
+    return new Fraction(this.n * o.d - o.n * this.d, this.d * o.d);
+  }
+
+  public times(other: number | Fraction): Fraction {
+    const o = Fraction.from(other);
+    return new Fraction(this.n * o.n, this.d * o.d);
+  }
+
+  public div(other: number | Fraction): Fraction {
+    const o = Fraction.from(other);
+    if (o.n === 0n) {
+      throw new RangeError('Division by zero');
+    }
+    return new Fraction(this.n * o.d, this.d * o.n);
+  }
+
+  public compare(other: number | Fraction): number {
+    const o = Fraction.from(other);
+    const diff = this.n * o.d - o.n * this.d;
+    return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+  }
+
+  public lt(other: number | Fraction): boolean {
+    return this.compare(other) < 0;
+  }
+
+  public isZero(): boolean {
+    return this.n === 0n;
+  }
+
+  /**
+   * Largest integer not above the value
+   */
+  public floor(): bigint {
+    const q = this.n / this.d;
+    return this.n < 0n && q * this.d !== this.n ? q - 1n : q;
+  }
+
+  /**
+   * Nearest integer, halves rounded up
+   */
+  public roundHalfUp(): bigint {
+    return this.plus(new Fraction(1n, 2n)).floor();
+  }
+
+  public toNumber(): number {
+    // Split off the integer part so large values keep their precision
+    const whole = this.floor();
+    const rest = this.minus(new Fraction(whole));
+    return Number(whole) + Number(rest.n) / Number(rest.d);
+  }
+}
+
+/**
+ * Smaller of two fractions
+ */
+export const minFraction = (a: Fraction, b: Fraction): Fraction => (a.lt(b) ? a : b);
+
+/**
+ * Whole shares to issue for an exact entitlement under a rounding policy. Both 'round-down' and
+ * 'cash-out' issue the whole shares below it; under 'cash-out' the fraction is paid in cash.
+ * @param exact Exact number of shares the holder is entitled to
+ * @param policy Rounding policy
+ */
+export function roundShares(exact: Fraction, policy: RoundingPolicy): number {
+  return Number(policy === 'half-up' ? exact.roundHalfUp() : exact.floor());
+}
+
+// Accepted values of CompanyConfig.rounding
+export const ROUNDING_POLICIES: readonly RoundingPolicy[] = ['half-up', 'round-down', 'cash-out'];
@@ -0,0 +1,76 @@
+import { Company } from './Company.js';
+import { BranchComparison } from './types.js';
+import { plotEquityDilution } from './visualization.js';
+import { ChartFormat } from './renderers.js';
+
+/**
+ * Compare per-holder ownership and share counts at the end of several scenario branches
+ * @param branches Companies keyed by branch label (e.g. { 'SAFE now': a, 'Priced seed': b })
+ */
+export function compareBranches(branches: Record<string, Company>): BranchComparison {
+  const labels = Object.keys(branches);
+  const holders: BranchComparison['holders'] = [];
+
+  labels.forEach((label, b) => {
+    branches[label].holdings().forEach(h => {
+      let row = holders.find(r => r.id === h.id);
+      if (!row) {
+        row = {
+          id: h.id,
+          name: h.name,
+          role: h.role,
+          shares: labels.map(() => 0),
+          percentages: labels.map(() => 0),
+        };
+        holders.push(row);
+      }
+      row.shares[b] = h.asConvertedShares;
+      row.percentages[b] = h.percentage;
+    });
+  });
+
+  return { branches: labels, holders };
+}
+
+/**
+ * Render a branch comparison as a text table, with combined founder ownership last
+ * @param comparison Result of compareBranches
+ */
+export function formatComparison(comparison: BranchComparison): string {
+  const nameWidth = Math.max(10, ...comparison.holders.map(h => h.name.length));
+  const colWidth = Math.max(22, ...comparison.branches.map(b => b.length + 2));
+  const pad = (text: string, width: number) => text.padStart(width);
+
+  const lines = [
+    'Holder'.padEnd(nameWidth) + comparison.branches.map(b => pad(b, colWidth)).join(''),
+  ];
+  comparison.holders.forEach(h => {
+    const cells = h.shares.map((shares, i) => pad(`${shares} (${h.percentages[i].toFixed(2)}%)`, colWidth));
+    lines.push(h.name.padEnd(nameWidth) + cells.join(''));
+  });
+
+  // The question is usually "which path leaves founders with more"
+  const founders = comparison.branches.map((_, i) => comparison.holders
+    .filter(h => h.role === 'founder')
+    .reduce((sum, h) => sum + h.percentages[i], 0));
+  lines.push('Founders'.padEnd(nameWidth) + founders.map(p => pad(`${p.toFixed(2)}%`, colWidth)).join(''));
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate a single image with the final cap table of each branch, one bar per branch
+ * @param branches Companies keyed by branch label
+ * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+ * @param width Width of the output image (default: 1600px)
+ * @param format Output format (defaults to the file extension)
+ */
+export function plotBranches(
+  branches: Record<string, Company>,
+  outputPath: string = 'scenario-comparison.png',
+  width: number = 1600,
+  format?: ChartFormat
+): void {
+  const finals = Object.entries(branches).map(([label, company]) => ({ ...company.snapshot(), label }));
+  plotEquityDilution(finals, outputPath, width, 'Scenario Comparison', format);
+}
@@ -0,0 +1,32 @@
+// Date helpers for ISO (YYYY-MM-DD) dates used across the simulator
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const parse = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+/**
+ * Fractional years between two dates (actual/365)
+ */
+export function yearsBetween(from: string, to: string): number {
+  return (parse(to).getTime() - parse(from).getTime()) / MS_PER_DAY / 365;
+}
+
+/**
+ * Whole calendar months elapsed between two dates
+ */
+export function monthsBetween(from: string, to: string): number {
+  const a = parse(from);
+  const b = parse(to);
+  let months = (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + (b.getUTCMonth() - a.getUTCMonth());
+  if (b.getUTCDate() < a.getUTCDate()) months -= 1;
+  return months;
+}
+
+/**
+ * Date the given number of calendar months later
+ */
+export function addMonths(date: string, months: number): string {
+  const d = parse(date);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+}
@@ -0,0 +1,47 @@
+import { EquitySnapshot, ExerciseTranche, OwnershipBasis } from './types.js';
+
+/**
+ * Net new shares from exercising options or warrants under the treasury stock method: in-the-money
+ * tranches are exercised and the proceeds buy back shares at the market price
+ * @param tranches Shares and exercise price of each tranche
+ * @param sharePrice Market price per share (no tranche is in the money without one)
+ */
+export function treasuryMethodShares(tranches: ExerciseTranche[], sharePrice?: number): number {
+  if (sharePrice === undefined || sharePrice <= 0) return 0;
+  return tranches
+    .filter(t => t.exercisePrice < sharePrice)
+    .reduce((sum, t) => sum + t.shares * (1 - t.exercisePrice / sharePrice), 0);
+}
+
+/**
+ * Measure every holding of a snapshot as issued and outstanding, fully diluted, and
+ * treasury-method diluted at a given share price
+ * @param snapshot Cap table snapshot
+ * @param sharePrice Market price per share (defaults to the snapshot's latest round price)
+ */
+export function ownershipBases(snapshot: EquitySnapshot, sharePrice: number | undefined = snapshot.sharePrice): OwnershipBasis[] {
+  const rows = snapshot.entries.map(e => {
+    const exercisable = e.type === 'option' || e.type === 'warrant';
+    return {
+      name: e.name,
+      holderId: e.holderId,
+      type: e.type,
+      issuedShares: exercisable ? 0 : e.asConvertedShares,
+      fullyDilutedShares: e.asConvertedShares,
+      // The unallocated pool has nothing outstanding to exercise
+      treasuryShares: exercisable ? treasuryMethodShares(e.tranches ?? [], sharePrice) : e.asConvertedShares,
+    };
+  });
+
+  const issued = rows.reduce((sum, r) => sum + r.issuedShares, 0);
+  const fullyDiluted = rows.reduce((sum, r) => sum + r.fullyDilutedShares, 0);
+  const treasury = rows.reduce((sum, r) => sum + r.treasuryShares, 0);
+  const percent = (shares: number, total: number) => total > 0 ? (shares / total) * 100 : 0;
+
+  return rows.map(r => ({
+    ...r,
+    issuedPercentage: percent(r.issuedShares, issued),
+    fullyDilutedPercentage: percent(r.fullyDilutedShares, fullyDiluted),
+    treasuryPercentage: percent(r.treasuryShares, treasury),
+  }));
+}
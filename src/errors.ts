@@ -0,0 +1,106 @@
+/**
+ * Base class for errors raised by the simulator, e.g. granting more options than a pool holds
+ */
+export class CapTableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CapTableError';
+  }
+}
+
+/**
+ * Invalid argument to the public API, naming the field and the value that was rejected
+ */
+export class ValidationError extends CapTableError {
+  constructor(public readonly field: string, public readonly value: unknown, public readonly reason: string) {
+    super(`${field}: ${reason}, got ${describeValue(value)}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// JSON.stringify turns Infinity and NaN into null, which hides the problem
+export const describeValue = (value: unknown): string =>
+  typeof value === 'number' ? String(value) : JSON.stringify(value) ?? String(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+/**
+ * Require a finite number greater than zero
+ */
+export function assertPositive(field: string, value: number): void {
+  if (!isNumber(value) || !Number.isFinite(value) || value <= 0) {
+    throw new ValidationError(field, value, 'must be a positive number');
+  }
+}
+
+/**
+ * Require a finite number of zero or more
+ */
+export function assertNonNegative(field: string, value: number): void {
+  if (!isNumber(value) || !Number.isFinite(value) || value < 0) {
+    throw new ValidationError(field, value, 'must be zero or more');
+  }
+}
+
+/**
+ * Require a percentage from 0 up to, but not including, 100
+ */
+export function assertPercent(field: string, value: number): void {
+  if (!isNumber(value) || value < 0 || value >= 100) {
+    throw new ValidationError(field, value, 'must be at least 0 and below 100');
+  }
+}
+
+/**
+ * Require a positive valuation cap or 'uncapped'
+ */
+export function assertCap(field: string, value: number | 'uncapped'): void {
+  if (value !== 'uncapped') {
+    assertPositive(field, value);
+  }
+}
+
+/**
+ * Require a real calendar date in ISO form (YYYY-MM-DD)
+ */
+export function assertDate(field: string, value: string): void {
+  const date = new Date(`${value}T00:00:00Z`);
+  // Rolled-over dates such as 2024-02-30 parse, but not back to the same string
+  const valid = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  if (!valid) {
+    throw new ValidationError(field, value, 'must be an ISO date (YYYY-MM-DD)');
+  }
+}
+
+/**
+ * Require a whole number of shares greater than zero
+ */
+export function assertWholeShares(field: string, value: number): void {
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new ValidationError(field, value, 'must be a positive whole number of shares');
+  }
+}
+
+/**
+ * Require true or false
+ */
+export function assertBoolean(field: string, value: boolean): void {
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(field, value, 'must be true or false');
+  }
+}
+
+/**
+ * Require a list of non-empty strings
+ */
+export function assertStrings(field: string, value: string[]): void {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(field, value, 'must be a list of strings');
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== 'string' || item.trim() === '') {
+      throw new ValidationError(`${field}[${i}]`, item, 'must be a non-empty string');
+    }
+  });
+}
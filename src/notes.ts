@@ -0,0 +1,27 @@
+import { ConvertibleNote } from './types.js';
+import { yearsBetween } from './dates.js';
+
+/**
+ * Interest accrued on a convertible note up to a date
+ * @param note Convertible note
+ * @param asOf ISO date to accrue to
+ */
+export function accruedInterest(note: ConvertibleNote, asOf: string): number {
+  const years = Math.max(0, yearsBetween(note.issueDate, asOf));
+  const rate = note.interestRate / 100;
+  
+  if (note.interestType === 'compound') {
+    // Compounded annually
+    return note.principal * (Math.pow(1 + rate, years) - 1);
+  }
+  return note.principal * rate * years;
+}
+
+/**
+ * Principal plus accrued interest, i.e. the amount that converts into equity
+ * @param note Convertible note
+ * @param asOf ISO date of conversion
+ */
+export function conversionAmount(note: ConvertibleNote, asOf: string): number {
+  return note.principal + accruedInterest(note, asOf);
+}
@@ -0,0 +1,224 @@
+import { createCanvas, CanvasRenderingContext2D } from 'canvas';
+import fs from 'fs';
+import path from 'path';
+
+// Output formats supported by the chart renderers
+export type ChartFormat = 'png' | 'svg' | 'pdf';
+
+// Drawing primitives a chart layout is made of, in unscaled (CSS pixel) units
+export type Shape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; lineWidth?: number }
+  | { kind: 'text'; x: number; y: number; text: string; font: string; fill: string }
+  | { kind: 'line'; points: [number, number][]; stroke: string; lineWidth: number }
+  | { kind: 'polygon'; points: [number, number][]; fill: string };
+
+// A fully laid out chart, ready to be handed to any renderer
+export interface ChartLayout {
+  width: number;
+  height: number;
+  shapes: Shape[];
+}
+
+/**
+ * Records drawing calls made through a subset of the canvas 2D context API,
+ * so chart code is written once and the layout can be rendered to any format
+ */
+export class ChartRecorder {
+  public fillStyle = '#000000';
+  public strokeStyle = '#000000';
+  public lineWidth = 1;
+  public font = '10px Arial';
+
+  private shapes: Shape[] = [];
+  private path: [number, number][] = [];
+
+  constructor(private readonly width: number, private readonly height: number) {}
+
+  public fillRect(x: number, y: number, width: number, height: number): void {
+    this.shapes.push({ kind: 'rect', x, y, width, height, fill: this.fillStyle });
+  }
+
+  public strokeRect(x: number, y: number, width: number, height: number): void {
+    this.shapes.push({ kind: 'rect', x, y, width, height, stroke: this.strokeStyle, lineWidth: this.lineWidth });
+  }
+
+  public fillText(text: string, x: number, y: number): void {
+    this.shapes.push({ kind: 'text', x, y, text, font: this.font, fill: this.fillStyle });
+  }
+
+  /**
+   * Estimate rendered text width from the font size, so layout does not depend on a canvas.
+   * Arial averages a little over half an em per character.
+   */
+  public measureText(text: string): { width: number } {
+    const { size, weight } = parseFont(this.font);
+    return { width: text.length * size * (weight === 'bold' ? 0.6 : 0.55) };
+  }
+
+  public beginPath(): void {
+    this.path = [];
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.path = [[x, y]];
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.path.push([x, y]);
+  }
+
+  /**
+   * Add an arc to the current path, approximated by straight segments of at most 2 degrees
+   */
+  public arc(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): void {
+    const steps = Math.max(1, Math.ceil(Math.abs(endAngle - startAngle) / (Math.PI / 90)));
+    for (let i = 0; i <= steps; i++) {
+      const angle = startAngle + ((endAngle - startAngle) * i) / steps;
+      this.path.push([cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)]);
+    }
+  }
+
+  public stroke(): void {
+    this.shapes.push({ kind: 'line', points: [...this.path], stroke: this.strokeStyle, lineWidth: this.lineWidth });
+  }
+
+  public fill(): void {
+    this.shapes.push({ kind: 'polygon', points: [...this.path], fill: this.fillStyle });
+  }
+
+  public layout(): ChartLayout {
+    return { width: this.width, height: this.height, shapes: [...this.shapes] };
+  }
+}
+
+/**
+ * Split a CSS font shorthand such as 'bold 14px Arial'
+ */
+function parseFont(font: string): { weight: string; size: number; family: string } {
+  const match = font.match(/^(?:(bold|normal)\s+)?(\d+(?:\.\d+)?)px\s+(.+)$/);
+  if (!match) {
+    return { weight: 'normal', size: 10, family: 'Arial' };
+  }
+  return { weight: match[1] ?? 'normal', size: Number(match[2]), family: match[3] };
+}
+
+/**
+ * Replay a layout on a canvas 2D context (shared by the PNG and PDF backends)
+ */
+function drawOnCanvas(ctx: CanvasRenderingContext2D, layout: ChartLayout): void {
+  layout.shapes.forEach(shape => {
+    if (shape.kind === 'rect') {
+      if (shape.fill) {
+        ctx.fillStyle = shape.fill;
+        ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
+      }
+      if (shape.stroke) {
+        ctx.strokeStyle = shape.stroke;
+        ctx.lineWidth = shape.lineWidth ?? 1;
+        ctx.strokeRect(shape.x, shape.y, shape.width, shape.height);
+      }
+    } else if (shape.kind === 'text') {
+      ctx.font = shape.font;
+      ctx.fillStyle = shape.fill;
+      ctx.fillText(shape.text, shape.x, shape.y);
+    } else if (shape.kind === 'polygon') {
+      ctx.fillStyle = shape.fill;
+      ctx.beginPath();
+      shape.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+    } else {
+      ctx.strokeStyle = shape.stroke;
+      ctx.lineWidth = shape.lineWidth;
+      ctx.beginPath();
+      shape.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.stroke();
+    }
+  });
+}
+
+/**
+ * Render a layout to PNG
+ * @param layout Chart layout
+ * @param scale Pixel density (2 for retina-like quality)
+ */
+export function renderPng(layout: ChartLayout, scale: number = 2): Buffer {
+  const canvas = createCanvas(layout.width * scale, layout.height * scale);
+  const ctx = canvas.getContext('2d');
+  ctx.scale(scale, scale);
+  drawOnCanvas(ctx, layout);
+  return canvas.toBuffer('image/png');
+}
+
+/**
+ * Render a layout to a single-page vector PDF
+ * @param layout Chart layout
+ */
+export function renderPdf(layout: ChartLayout): Buffer {
+  const canvas = createCanvas(layout.width, layout.height, 'pdf');
+  drawOnCanvas(canvas.getContext('2d'), layout);
+  return canvas.toBuffer('application/pdf');
+}
+
+const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Round coordinates so SVG output stays stable and readable in diffs
+const num = (value: number): number => Number(value.toFixed(2));
+
+/**
+ * Render a layout to an SVG document
+ * @param layout Chart layout
+ */
+export function renderSvg(layout: ChartLayout): string {
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}">`,
+  ];
+
+  layout.shapes.forEach(shape => {
+    if (shape.kind === 'rect') {
+      const fill = shape.fill ? `fill="${shape.fill}"` : 'fill="none"';
+      const stroke = shape.stroke ? ` stroke="${shape.stroke}" stroke-width="${shape.lineWidth ?? 1}"` : '';
+      lines.push(`  <rect x="${num(shape.x)}" y="${num(shape.y)}" width="${num(shape.width)}" height="${num(shape.height)}" ${fill}${stroke}/>`);
+    } else if (shape.kind === 'text') {
+      const { weight, size, family } = parseFont(shape.font);
+      lines.push(`  <text x="${num(shape.x)}" y="${num(shape.y)}" font-family="${escapeXml(family)}" font-size="${size}" font-weight="${weight}" fill="${shape.fill}">${escapeXml(shape.text)}</text>`);
+    } else if (shape.kind === 'polygon') {
+      const points = shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ');
+      lines.push(`  <polygon points="${points}" fill="${shape.fill}"/>`);
+    } else {
+      const points = shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ');
+      lines.push(`  <polyline points="${points}" fill="none" stroke="${shape.stroke}" stroke-width="${shape.lineWidth}"/>`);
+    }
+  });
+
+  lines.push('</svg>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Pick the output format from a file extension, defaulting to PNG
+ */
+export function formatFromPath(outputPath: string): ChartFormat {
+  const ext = path.extname(outputPath).toLowerCase().slice(1);
+  return ext === 'svg' || ext === 'pdf' ? ext : 'png';
+}
+
+/**
+ * Render a layout and write it to disk
+ * @param layout Chart layout
+ * @param outputPath File path to save to
+ * @param format Output format (defaults to the file extension)
+ */
+export function saveChart(layout: ChartLayout, outputPath: string, format: ChartFormat = formatFromPath(outputPath)): void {
+  if (format === 'svg') {
+    fs.writeFileSync(outputPath, renderSvg(layout));
+  } else if (format === 'pdf') {
+    fs.writeFileSync(outputPath, renderPdf(layout));
+  } else {
+    fs.writeFileSync(outputPath, renderPng(layout));
+  }
+}
@@ -0,0 +1,352 @@
+import fs from 'fs';
+import { ConvertibleNote, EquitySnapshot, Safe } from './types.js';
+import { chartEntries, ownershipSeries } from './visualization.js';
+
+// Data embedded in the report, everything the page script needs to render
+interface ReportData {
+  title: string;
+  snapshots: {
+    label: string;
+    totalShares: number;
+    issuedShares: number;
+    segments: {
+      name: string;
+      color: string;
+      shares: number;
+      percentage: number;
+      rows: { name: string; shareClass: string; shares: number; percentage: number }[];
+    }[];
+    rows: {
+      name: string;
+      holder: string;
+      role: string;
+      shareClass: string;
+      shares: number;
+      asConvertedShares: number;
+      percentage: number;
+      issuedPercentage: number;
+      treasuryPercentage: number;
+      invested: number | null;
+    }[];
+  }[];
+  instruments: {
+    kind: 'SAFE' | 'Note';
+    name: string;
+    terms: string;
+    amount: number;
+    cap: number | 'uncapped';
+    discount: number | null;
+    status: string;
+    round: string | null;
+    shareClass: string | null;
+    method: string | null;
+    capitalization: number | null;
+    price: number | null;
+    convertedAmount: number | null;
+    shares: number | null;
+  }[];
+}
+
+const STYLES = `
+body { font-family: Arial, sans-serif; color: #34495e; background: #fcfcfc; margin: 24px; }
+h1 { font-size: 24px; } h2 { font-size: 18px; margin-top: 32px; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { padding: 4px 10px; border-bottom: 1px solid #dfe4e8; text-align: right; }
+th:first-child, td:first-child, th.text, td.text { text-align: left; }
+th { cursor: pointer; user-select: none; background: #f0f3f5; }
+th.sorted-asc::after { content: ' \\25B2'; } th.sorted-desc::after { content: ' \\25BC'; }
+.bar-label { font-size: 12px; margin: 10px 0 3px; }
+.bar { display: flex; height: 28px; border-radius: 3px; overflow: hidden; }
+.bar div { height: 100%; }
+.bar div:hover { outline: 2px solid #34495e; outline-offset: -2px; }
+#tooltip { position: fixed; display: none; pointer-events: none; background: #fff; border: 1px solid #bdc3c7; padding: 8px; font-size: 12px; box-shadow: 0 2px 6px rgba(0,0,0,0.15); }
+#tooltip table { font-size: 12px; } #tooltip td { border: none; padding: 1px 6px; }
+`;
+
+// Page script, kept free of template literals so it can live in one
+const SCRIPT = `
+var data = JSON.parse(document.getElementById('report-data').textContent);
+var fmt = function (n, digits) {
+  return n.toLocaleString('en-US', { minimumFractionDigits: digits || 0, maximumFractionDigits: digits || 0 });
+};
+var el = function (tag, text, cls) {
+  var node = document.createElement(tag);
+  if (text !== undefined) node.textContent = text;
+  if (cls) node.className = cls;
+  return node;
+};
+
+// Dilution chart: one stacked bar per snapshot, exact numbers on hover
+var tooltip = document.getElementById('tooltip');
+var chart = document.getElementById('chart');
+data.snapshots.forEach(function (snapshot, i) {
+  chart.appendChild(el('div', (i + 1) + '. ' + snapshot.label, 'bar-label'));
+  var bar = el('div', undefined, 'bar');
+  snapshot.segments.forEach(function (segment) {
+    var part = el('div');
+    part.style.width = segment.percentage + '%';
+    part.style.background = segment.color;
+    part.addEventListener('mousemove', function (e) {
+      tooltip.innerHTML = '';
+      tooltip.appendChild(el('strong', segment.name + ': ' + fmt(segment.shares) + ' shares (' + fmt(segment.percentage, 2) + '%)'));
+      var table = el('table');
+      segment.rows.forEach(function (row) {
+        var tr = el('tr');
+        [row.name, row.shareClass, fmt(row.shares), fmt(row.percentage, 2) + '%'].forEach(function (text) {
+          tr.appendChild(el('td', text));
+        });
+        table.appendChild(tr);
+      });
+      tooltip.appendChild(table);
+      tooltip.style.display = 'block';
+      tooltip.style.left = Math.min(e.clientX + 12, window.innerWidth - tooltip.offsetWidth - 8) + 'px';
+      tooltip.style.top = (e.clientY + 12) + 'px';
+    });
+    part.addEventListener('mouseleave', function () { tooltip.style.display = 'none'; });
+    bar.appendChild(part);
+  });
+  chart.appendChild(bar);
+});
+
+// Tables sort on any column by clicking its header
+var sortableTable = function (columns, rows) {
+  var table = el('table');
+  var head = el('tr');
+  var body = el('tbody');
+  var sortKey = null;
+  var ascending = true;
+  var render = function () {
+    body.innerHTML = '';
+    var sorted = rows.slice();
+    if (sortKey !== null) {
+      sorted.sort(function (a, b) {
+        var x = a[sortKey], y = b[sortKey];
+        if (x === y) return 0;
+        if (x === null) return 1;
+        if (y === null) return -1;
+        return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+      });
+    }
+    sorted.forEach(function (row) {
+      var tr = el('tr');
+      columns.forEach(function (column) {
+        var value = row[column.key];
+        var text = value === null ? '' : column.format ? column.format(value) : String(value);
+        tr.appendChild(el('td', text, column.format ? '' : 'text'));
+      });
+      body.appendChild(tr);
+    });
+  };
+  columns.forEach(function (column) {
+    var th = el('th', column.label, column.format ? '' : 'text');
+    th.addEventListener('click', function () {
+      ascending = sortKey === column.key ? !ascending : true;
+      sortKey = column.key;
+      Array.prototype.forEach.call(head.children, function (cell) { cell.classList.remove('sorted-asc', 'sorted-desc'); });
+      th.classList.add(ascending ? 'sorted-asc' : 'sorted-desc');
+      render();
+    });
+    head.appendChild(th);
+  });
+  var thead = el('thead');
+  thead.appendChild(head);
+  table.appendChild(thead);
+  table.appendChild(body);
+  render();
+  return table;
+};
+
+var shares = function (n) { return fmt(n); };
+var percent = function (n) { return fmt(n, 2) + '%'; };
+var dollars = function (n) { return '$' + fmt(n); };
+var price = function (n) { return '$' + fmt(n, 4); };
+
+// Cap table for the selected snapshot, latest first
+var select = document.getElementById('snapshot');
+var capTable = document.getElementById('cap-table');
+data.snapshots.forEach(function (snapshot, i) {
+  select.appendChild(el('option', (i + 1) + '. ' + snapshot.label)).value = String(i);
+});
+var showSnapshot = function () {
+  var snapshot = data.snapshots[Number(select.value)];
+  capTable.innerHTML = '';
+  capTable.appendChild(sortableTable([
+    { key: 'name', label: 'Name' },
+    { key: 'holder', label: 'Holder' },
+    { key: 'role', label: 'Role' },
+    { key: 'shareClass', label: 'Share Class' },
+    { key: 'shares', label: 'Shares', format: shares },
+    { key: 'asConvertedShares', label: 'As-Converted', format: shares },
+    { key: 'percentage', label: 'Fully Diluted', format: percent },
+    { key: 'issuedPercentage', label: 'Issued', format: percent },
+    { key: 'treasuryPercentage', label: 'Treasury Method', format: percent },
+    { key: 'invested', label: 'Invested', format: dollars }
+  ], snapshot.rows));
+  capTable.appendChild(el('p', 'Fully diluted: ' + fmt(snapshot.totalShares) + ' shares. Issued and outstanding: ' + fmt(snapshot.issuedShares) + ' shares.'));
+};
+select.value = String(data.snapshots.length - 1);
+select.addEventListener('change', showSnapshot);
+showSnapshot();
+
+// SAFEs and notes with the details of their conversion
+var instruments = document.getElementById('instruments');
+if (data.instruments.length === 0) {
+  instruments.appendChild(el('p', 'No SAFEs or convertible notes.'));
+} else {
+  instruments.appendChild(sortableTable([
+    { key: 'kind', label: 'Instrument' },
+    { key: 'name', label: 'Name' },
+    { key: 'terms', label: 'Terms' },
+    { key: 'amount', label: 'Amount', format: dollars },
+    { key: 'status', label: 'Status' },
+    { key: 'round', label: 'Converted In' },
+    { key: 'shareClass', label: 'Share Class' },
+    { key: 'method', label: 'Priced At' },
+    { key: 'capitalization', label: 'Cap Denominator', format: shares },
+    { key: 'price', label: 'Price', format: price },
+    { key: 'convertedAmount', label: 'Amount Converted', format: dollars },
+    { key: 'shares', label: 'Shares', format: shares }
+  ], data.instruments));
+}
+`;
+
+/**
+ * Flatten history and instruments into the data the report page renders
+ */
+function reportData(history: EquitySnapshot[], safes: Safe[], notes: ConvertibleNote[], title: string): ReportData {
+  const colors = new Map(ownershipSeries(history).map(s => [s.name, s.color]));
+  const capInfo = (cap: number | 'uncapped') => cap === 'uncapped' ? 'uncapped' : `$${cap.toLocaleString('en-US')} cap`;
+  const discountInfo = (discount?: number) => discount ? `, ${discount}% discount` : '';
+
+  const snapshots = history.map(snapshot => {
+    const holderName = (id: string) => snapshot.stakeholders.find(h => h.id === id)?.name ?? id;
+    return {
+      label: snapshot.label,
+      totalShares: snapshot.totalShares,
+      issuedShares: snapshot.issuedShares,
+      segments: chartEntries(snapshot).map(entry => ({
+        name: entry.name,
+        color: colors.get(entry.name)!,
+        shares: entry.asConvertedShares,
+        percentage: entry.percentage,
+        // Founders are combined in the chart, everyone else is rolled up by holder
+        rows: snapshot.entries
+          .filter(e => entry.name === 'Founders' ? e.role === 'founder' : e.holderId === entry.holderId)
+          .map(e => ({ name: e.name, shareClass: e.shareClass, shares: e.asConvertedShares, percentage: e.percentage })),
+      })),
+      rows: snapshot.entries.map(e => ({
+        name: e.name,
+        holder: holderName(e.holderId),
+        role: e.role,
+        shareClass: e.shareClass,
+        shares: e.shares,
+        asConvertedShares: e.asConvertedShares,
+        percentage: e.percentage,
+        issuedPercentage: e.issuedPercentage,
+        treasuryPercentage: e.treasuryPercentage,
+        invested: e.invested ?? null,
+      })),
+    };
+  });
+
+  const conversionOf = (instrument: Safe | ConvertibleNote) => ({
+    round: instrument.conversion?.round ?? null,
+    shareClass: instrument.conversion?.shareClass ?? null,
+    method: instrument.conversion?.method ?? null,
+    capitalization: instrument.conversion?.capitalization ?? null,
+    price: instrument.conversion?.price ?? null,
+    convertedAmount: instrument.conversion?.amount ?? null,
+    shares: instrument.conversion?.shares ?? null,
+  });
+
+  const instruments: ReportData['instruments'] = [
+    ...safes.map(s => ({
+      kind: 'SAFE' as const,
+      name: s.name,
+      terms: `${s.type}, ${capInfo(s.cap)}${discountInfo(s.discount)}`,
+      amount: s.amount,
+      cap: s.cap,
+      discount: s.discount ?? null,
+      status: s.settlement ? `${s.settlement.method} in ${s.settlement.event}` : s.converted ? 'converted' : 'outstanding',
+      ...conversionOf(s),
+    })),
+    ...notes.map(n => ({
+      kind: 'Note' as const,
+      name: n.name,
+      terms: `${n.interestRate}% ${n.interestType}, ${capInfo(n.cap)}${discountInfo(n.discount)}, ${n.issueDate} to ${n.maturityDate}`,
+      amount: n.principal,
+      cap: n.cap,
+      discount: n.discount ?? null,
+      status: n.converted ? 'converted' : n.repaid ? 'repaid' : 'outstanding',
+      ...conversionOf(n),
+    })),
+  ];
+
+  return { title, snapshots, instruments };
+}
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+/**
+ * Render a self-contained HTML report: an interactive dilution chart, a sortable
+ * cap table per snapshot and the SAFEs and notes with their conversion details
+ * @param history Array of equity snapshots
+ * @param safes SAFEs signed by the company
+ * @param notes Convertible notes issued by the company
+ * @param title Page title
+ */
+export function renderHtmlReport(
+  history: EquitySnapshot[],
+  safes: Safe[],
+  notes: ConvertibleNote[],
+  title: string = 'Cap Table Report'
+): string {
+  // Escape '<' so names can never close the script element early
+  const json = JSON.stringify(reportData(history, safes, notes, title)).replace(/</g, '\\u003c');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    '<h2>Equity Dilution</h2>',
+    '<div id="chart"></div>',
+    '<h2>Cap Table</h2>',
+    '<select id="snapshot"></select>',
+    '<div id="cap-table"></div>',
+    '<h2>SAFEs and Notes</h2>',
+    '<div id="instruments"></div>',
+    '<div id="tooltip"></div>',
+    `<script type="application/json" id="report-data">${json}</script>`,
+    `<script>${SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Write the HTML report to disk
+ * @param history Array of equity snapshots
+ * @param safes SAFEs signed by the company
+ * @param notes Convertible notes issued by the company
+ * @param outputPath File path to save the report
+ * @param title Page title
+ */
+export function writeHtmlReport(
+  history: EquitySnapshot[],
+  safes: Safe[],
+  notes: ConvertibleNote[],
+  outputPath: string = 'cap-table-report.html',
+  title?: string
+): void {
+  fs.writeFileSync(outputPath, renderHtmlReport(history, safes, notes, title));
+  console.log(`HTML report saved to ${outputPath}`);
+}
@@ -0,0 +1,358 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ROUNDING_POLICIES } from './arithmetic.js';
+import { Company } from './Company.js';
+import { ValidationError, describeValue } from './errors.js';
+import { Scenario, ScenarioEvent } from './types.js';
+
+/**
+ * Error raised for an invalid scenario file, pointing at the offending event and field
+ */
+export class ScenarioError extends Error {
+  constructor(message: string, public readonly eventIndex?: number, public readonly field?: string) {
+    const location = eventIndex === undefined ?
+      (field ?? '') :
+      `events[${eventIndex}]${field ? `.${field}` : ''}`;
+    super(location ? `${location}: ${message}` : message);
+    this.name = 'ScenarioError';
+  }
+}
+
+type FieldKind = 'number' | 'string' | 'date' | 'cap' | 'object';
+
+interface FieldSpec {
+  kind: FieldKind;
+  required?: boolean;
+  values?: readonly string[]; // Allowed values for string fields
+}
+
+// Fields accepted by each event, mirroring the arguments of the Company method it calls
+const EVENT_FIELDS: Record<ScenarioEvent['event'], Record<string, FieldSpec>> = {
+  giveEquity: {
+    percent: { kind: 'number', required: true },
+    name: { kind: 'string', required: true },
+    shareType: { kind: 'string', values: ['common', 'preferred', 'option'] },
+    holder: { kind: 'object' },
+    date: { kind: 'date' },
+  },
+  signSafe: {
+    cap: { kind: 'cap', required: true },
+    amount: { kind: 'number', required: true },
+    name: { kind: 'string', required: true },
+    discount: { kind: 'number' },
+    safeType: { kind: 'string', values: ['pre-money', 'post-money'] },
+    holder: { kind: 'object' },
+    date: { kind: 'date' },
+  },
+  sideLetter: {
+    name: { kind: 'string', required: true },
+    rights: { kind: 'object', required: true },
+  },
+  signNote: {
+    principal: { kind: 'number', required: true },
+    interestRate: { kind: 'number', required: true },
+    cap: { kind: 'cap', required: true },
+    discount: { kind: 'number' },
+    issueDate: { kind: 'date', required: true },
+    maturityDate: { kind: 'date', required: true },
+    name: { kind: 'string', required: true },
+    options: { kind: 'object' },
+  },
+  matureNotes: {
+    asOf: { kind: 'date', required: true },
+    valuation: { kind: 'number' },
+  },
+  pricedRound: {
+    preMoneyValuation: { kind: 'number', required: true },
+    newMoney: { kind: 'number', required: true },
+    name: { kind: 'string' },
+    options: { kind: 'object' },
+  },
+  grantOptions: {
+    employee: { kind: 'string', required: true },
+    shares: { kind: 'number', required: true },
+    terms: { kind: 'object', required: true },
+  },
+  exerciseOptions: {
+    employee: { kind: 'string', required: true },
+    shares: { kind: 'number' },
+  },
+  cancelOptions: {
+    employee: { kind: 'string', required: true },
+    shares: { kind: 'number' },
+  },
+  depart: {
+    name: { kind: 'string', required: true },
+    date: { kind: 'date', required: true },
+    options: { kind: 'object' },
+  },
+  transferShares: {
+    from: { kind: 'string', required: true },
+    to: { kind: 'string', required: true },
+    shares: { kind: 'number', required: true },
+    options: { kind: 'object' },
+  },
+  repurchaseShares: {
+    name: { kind: 'string', required: true },
+    shares: { kind: 'number' },
+    options: { kind: 'object' },
+  },
+  split: {
+    ratio: { kind: 'number', required: true },
+    oldShares: { kind: 'number' },
+  },
+  issueWarrant: {
+    name: { kind: 'string', required: true },
+    terms: { kind: 'object', required: true },
+  },
+  exerciseWarrant: {
+    name: { kind: 'string', required: true },
+  },
+  expireWarrants: {
+    asOf: { kind: 'date', required: true },
+  },
+  acquire: {
+    saleValue: { kind: 'number', required: true },
+    name: { kind: 'string' },
+    options: { kind: 'object' },
+  },
+  dissolve: {
+    netAssets: { kind: 'number', required: true },
+    name: { kind: 'string' },
+    options: { kind: 'object' },
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Describe why a value does not match a field spec, or return undefined if it does
+ */
+function checkField(value: unknown, spec: FieldSpec): string | undefined {
+  const got = `got ${JSON.stringify(value)}`;
+  switch (spec.kind) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? undefined : `expected a number, ${got}`;
+    case 'cap':
+      return (typeof value === 'number' && Number.isFinite(value)) || value === 'uncapped' ?
+        undefined : `expected a number or "uncapped", ${got}`;
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ?
+        undefined : `expected an ISO date (YYYY-MM-DD), ${got}`;
+    case 'object':
+      return isObject(value) ? undefined : `expected an object, ${got}`;
+    case 'string':
+      if (typeof value !== 'string') return `expected a string, ${got}`;
+      if (spec.values && !spec.values.includes(value)) {
+        return `expected one of ${spec.values.map(v => `"${v}"`).join(', ')}, ${got}`;
+      }
+      return undefined;
+  }
+}
+
+/**
+ * Check the shape of a parsed scenario and return it typed
+ * @param data Parsed JSON or YAML document
+ */
+export function validateScenario(data: unknown): Scenario {
+  if (!isObject(data)) {
+    throw new ScenarioError('scenario must be an object');
+  }
+
+  const company = data.company ?? {};
+  if (!isObject(company)) {
+    throw new ScenarioError('expected an object', undefined, 'company');
+  }
+  (['founders', 'pools'] as const).forEach(key => {
+    const list = company[key];
+    if (list === undefined) return;
+    if (!Array.isArray(list)) {
+      throw new ScenarioError('expected an array', undefined, `company.${key}`);
+    }
+    const nameField = key === 'founders' ? 'name' : 'note';
+    list.forEach((item, i) => {
+      const field = `company.${key}[${i}]`;
+      if (!isObject(item)) throw new ScenarioError('expected an object', undefined, field);
+      const nameError = checkField(item[nameField], { kind: 'string' });
+      if (nameError) throw new ScenarioError(nameError, undefined, `${field}.${nameField}`);
+      const ownershipError = checkField(item.ownership, { kind: 'number' });
+      if (ownershipError) throw new ScenarioError(ownershipError, undefined, `${field}.ownership`);
+    });
+  });
+
+  if (company.ledger !== undefined) {
+    if (!Array.isArray(company.ledger)) {
+      throw new ScenarioError('expected an array', undefined, 'company.ledger');
+    }
+    company.ledger.forEach((item, i) => {
+      const field = `company.ledger[${i}]`;
+      if (!isObject(item)) throw new ScenarioError('expected an object', undefined, field);
+      const specs: [string, FieldSpec][] = [
+        ['holder', { kind: 'string', required: true }],
+        ['shareClass', { kind: 'string', required: true }],
+        ['shares', { kind: 'number', required: true }],
+        ['issuePrice', { kind: 'number' }]
+      ];
+      specs.forEach(([key, spec]) => {
+        if (item[key] === undefined) {
+          if (spec.required) throw new ScenarioError('is required', undefined, `${field}.${key}`);
+          return;
+        }
+        const error = checkField(item[key], spec);
+        if (error) throw new ScenarioError(error, undefined, `${field}.${key}`);
+      });
+    });
+  }
+
+  if (company.rounding !== undefined) {
+    const error = checkField(company.rounding, { kind: 'string', values: ROUNDING_POLICIES });
+    if (error) throw new ScenarioError(error, undefined, 'company.rounding');
+  }
+
+  if (data.initialShareCount !== undefined) {
+    const error = checkField(data.initialShareCount, { kind: 'number' });
+    if (error) throw new ScenarioError(error, undefined, 'initialShareCount');
+  }
+
+  if (!Array.isArray(data.events)) {
+    throw new ScenarioError('expected an array', undefined, 'events');
+  }
+  data.events.forEach((event, index) => {
+    if (!isObject(event)) {
+      throw new ScenarioError('expected an object', index);
+    }
+    const fields = EVENT_FIELDS[event.event as ScenarioEvent['event']];
+    if (!fields) {
+      const known = Object.keys(EVENT_FIELDS).map(e => `"${e}"`).join(', ');
+      throw new ScenarioError(`unknown event ${JSON.stringify(event.event)}, expected one of ${known}`, index, 'event');
+    }
+    Object.keys(event).forEach(key => {
+      if (key !== 'event' && !fields[key]) {
+        throw new ScenarioError(`unknown field for ${event.event}`, index, key);
+      }
+    });
+    Object.entries(fields).forEach(([key, spec]) => {
+      if (event[key] === undefined) {
+        if (spec.required) throw new ScenarioError('is required', index, key);
+        return;
+      }
+      const error = checkField(event[key], spec);
+      if (error) throw new ScenarioError(error, index, key);
+    });
+  });
+
+  return data as unknown as Scenario;
+}
+
+/**
+ * Parse and validate a scenario document
+ * @param text File contents
+ * @param format 'json' or 'yaml'
+ */
+export function parseScenario(text: string, format: 'json' | 'yaml'): Scenario {
+  let data: unknown;
+  try {
+    data = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    throw new ScenarioError(`invalid ${format.toUpperCase()}: ${(e as Error).message}`);
+  }
+  return validateScenario(data);
+}
+
+/**
+ * Read a scenario file, choosing the format from its extension (.json, .yaml or .yml)
+ * @param filePath Path to the scenario file
+ */
+export function loadScenario(filePath: string): Scenario {
+  const ext = path.extname(filePath).toLowerCase();
+  const format = ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json';
+  return parseScenario(fs.readFileSync(filePath, 'utf8'), format);
+}
+
+/**
+ * Replay a scenario through a new Company
+ * @param scenario Validated scenario
+ */
+export function runScenario(scenario: Scenario): Company {
+  let company: Company;
+  try {
+    company = new Company(scenario.company ?? {}, scenario.initialShareCount);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      const field = err.field === 'initialShareCount' ? err.field : `company.${err.field}`;
+      throw new ScenarioError(`${err.reason}, got ${describeValue(err.value)}`, undefined, field);
+    }
+    throw err;
+  }
+
+  scenario.events.forEach((e, index) => {
+    try {
+      switch (e.event) {
+        case 'giveEquity':
+          company.giveEquity(e.percent, e.name, e.shareType, e.holder, e.date);
+          break;
+        case 'signSafe':
+          company.signSafe(e.cap, e.amount, e.name, e.discount, e.safeType, e.holder, e.date);
+          break;
+        case 'sideLetter':
+          company.sideLetter(e.name, e.rights);
+          break;
+        case 'signNote':
+          company.signNote(e.principal, e.interestRate, e.cap, e.discount, e.issueDate, e.maturityDate, e.name, e.options);
+          break;
+        case 'matureNotes':
+          company.matureNotes(e.asOf, e.valuation);
+          break;
+        case 'pricedRound':
+          company.pricedRound(e.preMoneyValuation, e.newMoney, e.name, e.options);
+          break;
+        case 'grantOptions':
+          company.grantOptions(e.employee, e.shares, e.terms);
+          break;
+        case 'exerciseOptions':
+          company.exerciseOptions(e.employee, e.shares);
+          break;
+        case 'cancelOptions':
+          company.cancelOptions(e.employee, e.shares);
+          break;
+        case 'depart':
+          company.depart(e.name, e.date, e.options);
+          break;
+        case 'transferShares':
+          company.transferShares(e.from, e.to, e.shares, e.options);
+          break;
+        case 'repurchaseShares':
+          company.repurchaseShares(e.name, e.shares, e.options);
+          break;
+        case 'split':
+          company.split(e.ratio, e.oldShares);
+          break;
+        case 'issueWarrant':
+          company.issueWarrant(e.name, e.terms);
+          break;
+        case 'exerciseWarrant':
+          company.exerciseWarrant(e.name);
+          break;
+        case 'expireWarrants':
+          company.expireWarrants(e.asOf);
+          break;
+        case 'acquire':
+          company.acquire(e.saleValue, e.name, e.options);
+          break;
+        case 'dissolve':
+          company.dissolve(e.netAssets, e.name, e.options);
+          break;
+      }
+    } catch (err) {
+      // Point at the event, and the field if known, that the Company rejected
+      if (err instanceof ValidationError) {
+        throw new ScenarioError(`${err.reason}, got ${describeValue(err.value)}`, index, err.field);
+      }
+      throw new ScenarioError((err as Error).message, index);
+    }
+  });
+
+  return company;
+}
@@ -0,0 +1,149 @@
+import { Company } from './Company.js';
+import { ValidationError } from './errors.js';
+import { EquitySnapshot, StakeholderRole } from './types.js';
+
+// How the measured value must compare to the target
+export type GoalCondition = 'equal' | 'at-least' | 'at-most';
+
+export interface GoalSeekOptions {
+  scenario: (value: number) => Company; // Builds the company for a candidate value, e.g. v => base.fork().pricedRound(8_000_000, v)
+  metric: (company: Company) => number; // What is measured, e.g. roleOwnership('founder')
+  target: number;
+  condition?: GoalCondition; // Defaults to 'equal'
+  seek?: 'max' | 'min';      // For 'at-least' and 'at-most': the largest or smallest value meeting the target (default 'max')
+  min: number;               // Search interval for the value
+  max: number;
+  tolerance?: number;        // Stop once the value is pinned down this closely (default a millionth of the interval)
+  precision?: number;        // How close the metric must come to an 'equal' target (default 0.01)
+  maxIterations?: number;    // Defaults to 100
+}
+
+export interface GoalSeekResult {
+  reachable: boolean;
+  value: number;             // Value found, or the closest one tried when the target is out of reach
+  achieved: number;          // Metric at that value
+  company: Company;          // Company at that value
+  snapshot: EquitySnapshot;  // Its resulting cap table
+  evaluations: number;       // Scenarios built along the way
+  reason?: string;           // Why the target is out of reach
+}
+
+/**
+ * Fully diluted ownership of one stakeholder, by id or name, across all of its instruments
+ * @param holder Stakeholder id or name
+ */
+export const holderOwnership = (holder: string) => (company: Company): number =>
+  company.holdings()
+    .filter(h => h.id === holder || h.name === holder)
+    .reduce((sum, h) => sum + h.percentage, 0);
+
+/**
+ * Combined fully diluted ownership of every stakeholder with a role, e.g. 'founder'
+ * @param role Stakeholder role
+ */
+export const roleOwnership = (role: StakeholderRole) => (company: Company): number =>
+  company.holdings()
+    .filter(h => h.role === role)
+    .reduce((sum, h) => sum + h.percentage, 0);
+
+/**
+ * Find the value of one round parameter that meets an ownership target, by bisection. The metric is
+ * assumed to move in one direction across the interval, as ownership does with new money, caps and
+ * discounts, but it is measured on the full simulation, SAFE and note conversion included.
+ * @param options Scenario to vary, metric, target and search interval
+ */
+export function goalSeek(options: GoalSeekOptions): GoalSeekResult {
+  const { scenario, metric, target, condition = 'equal', seek = 'max', min, max } = options;
+  if (!(Number.isFinite(min) && Number.isFinite(max) && min < max)) {
+    throw new ValidationError('min', min, `must be finite and below max ${max}`);
+  }
+  if (!Number.isFinite(target)) {
+    throw new ValidationError('target', target, 'must be a finite number');
+  }
+  const tolerance = options.tolerance ?? (max - min) / 1_000_000;
+  const precision = options.precision ?? 0.01;
+  const maxIterations = options.maxIterations ?? 100;
+
+  let evaluations = 0;
+  // A failing probe is reported at the value that caused it, e.g. a round too small to price
+  const evaluate = (value: number) => {
+    evaluations++;
+    try {
+      const company = scenario(value);
+      return { value, company, achieved: metric(company) };
+    } catch (err) {
+      throw new ValidationError('value', value, `failed in the scenario or metric (${(err as Error).message})`);
+    }
+  };
+  type Trial = ReturnType<typeof evaluate>;
+  const result = (trial: Trial, reachable: boolean, reason?: string): GoalSeekResult => ({
+    reachable,
+    value: trial.value,
+    achieved: trial.achieved,
+    company: trial.company,
+    snapshot: trial.company.snapshot(),
+    evaluations,
+    reason
+  });
+
+  const low = evaluate(min);
+  const high = evaluate(max);
+
+  if (condition === 'equal') {
+    // Keep the side below the target in `below` and the side above it in `above`
+    const increasing = high.achieved >= low.achieved;
+    let below = increasing ? low : high;
+    let above = increasing ? high : low;
+    let best = Math.abs(low.achieved - target) <= Math.abs(high.achieved - target) ? low : high;
+    if (target < below.achieved - precision || target > above.achieved + precision) {
+      return result(best, false, `${target} is outside the ${low.achieved.toFixed(4)} to ${high.achieved.toFixed(4)} reached between ${min} and ${max}`);
+    }
+    for (let i = 0; i < maxIterations && Math.abs(above.value - below.value) > tolerance; i++) {
+      const mid = evaluate((below.value + above.value) / 2);
+      if (Math.abs(mid.achieved - target) < Math.abs(best.achieved - target)) {
+        best = mid;
+      }
+      if (mid.achieved < target) {
+        below = mid;
+      } else {
+        above = mid;
+      }
+    }
+    const reachable = Math.abs(best.achieved - target) <= precision;
+    return result(best, reachable, reachable ? undefined : `closest is ${best.achieved.toFixed(4)}; share rounding leaves no value within ${precision}`);
+  }
+
+  // Inequality: bisect between a value that meets the target and one that does not
+  const meets = (trial: Trial) => (condition === 'at-least' ? trial.achieved >= target : trial.achieved <= target);
+  const [edge, far] = seek === 'max' ? [high, low] : [low, high];
+  if (meets(edge)) {
+    return result(edge, true);
+  }
+  if (!meets(far)) {
+    const closest = Math.abs(low.achieved - target) <= Math.abs(high.achieved - target) ? low : high;
+    return result(closest, false, `${condition} ${target} is not met anywhere between ${min} and ${max} (${low.achieved.toFixed(4)} to ${high.achieved.toFixed(4)})`);
+  }
+  let good = far;
+  let bad = edge;
+  for (let i = 0; i < maxIterations && Math.abs(bad.value - good.value) > tolerance; i++) {
+    const mid = evaluate((good.value + bad.value) / 2);
+    if (meets(mid)) {
+      good = mid;
+    } else {
+      bad = mid;
+    }
+  }
+  return result(good, true);
+}
+
+/**
+ * Describe a goal-seek result in one line, followed by the resulting cap table
+ * @param result Result of goalSeek
+ * @param label Name of the value solved for (e.g. 'newMoney')
+ */
+export function formatGoalSeek(result: GoalSeekResult, label: string = 'value'): string {
+  const outcome = result.reachable ?
+    `${label} = ${result.value.toLocaleString()} gives ${result.achieved.toFixed(4)}` :
+    `Not reachable: ${result.reason}`;
+  return `${outcome} (${result.evaluations} evaluations)\n\n${result.company.formatEquity()}`;
+}
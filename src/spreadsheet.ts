@@ -0,0 +1,362 @@
+import fs from 'fs';
+import { deflateRawSync } from 'zlib';
+import { ValidationError } from './errors.js';
+import { EquitySnapshot, LedgerEntry, ShareType, StakeholderRole } from './types.js';
+
+type Cell = string | number | undefined;
+
+// Ledger column names as they appear in common exports, compared without case, spaces or punctuation
+const LEDGER_COLUMNS: Record<keyof LedgerEntry, string[]> = {
+  holder: ['holder', 'stakeholder', 'stakeholdername', 'shareholder', 'name'],
+  shareClass: ['class', 'shareclass', 'securityclass', 'security', 'classname'],
+  shares: ['shares', 'quantity', 'numberofshares', 'sharecount', 'outstanding'],
+  issuePrice: ['issueprice', 'price', 'pricepershare', 'originalissueprice'],
+  type: ['type', 'sharetype'],
+  id: ['id', 'holderid', 'stakeholderid'],
+  role: ['role']
+};
+
+const ROLES: StakeholderRole[] = ['founder', 'employee', 'angel', 'fund', 'accelerator', 'pool'];
+const TYPES: ShareType[] = ['common', 'preferred', 'option', 'warrant'];
+
+const CAP_TABLE_HEADER = [
+  'Holder', 'Holder ID', 'Role', 'Class', 'Type', 'Shares', 'As-converted Shares',
+  'Fully Diluted %', 'Issued %', 'Invested'
+];
+
+/**
+ * Cap table rows of a snapshot, one per holding, followed by a total line
+ */
+function capTableRows(snapshot: EquitySnapshot): Cell[][] {
+  return [
+    ...snapshot.entries.map(e => [
+      e.name, e.holderId, e.role, e.shareClass, e.type, e.shares, e.asConvertedShares,
+      e.percentage, e.issuedPercentage, e.invested
+    ]),
+    ['Total', undefined, undefined, undefined, undefined,
+      snapshot.entries.reduce((sum, e) => sum + e.shares, 0), snapshot.totalShares, 100, 100,
+      snapshot.entries.reduce((sum, e) => sum + (e.invested ?? 0), 0)]
+  ];
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas, quotes and line breaks)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    rows.push([...row, field]);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+/**
+ * Join rows into CSV text, quoting fields that need it
+ */
+function toCsv(rows: Cell[][]): string {
+  const quote = (cell: Cell) => {
+    const text = cell === undefined ? '' : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Current cap table as CSV, one line per holding
+ * @param snapshot Snapshot to export
+ */
+export function formatCapTableCsv(snapshot: EquitySnapshot): string {
+  return toCsv([CAP_TABLE_HEADER, ...capTableRows(snapshot)]);
+}
+
+/**
+ * Every snapshot's cap table as one long CSV, each line tagged with its snapshot
+ * @param history Snapshots in order
+ */
+export function formatHistoryCsv(history: EquitySnapshot[]): string {
+  return toCsv([
+    ['Snapshot', 'Date', ...CAP_TABLE_HEADER],
+    ...history.flatMap(snapshot => capTableRows(snapshot).map(row => [snapshot.label, snapshot.date, ...row]))
+  ]);
+}
+
+/**
+ * Read a ledger-style CSV with a header line naming at least the holder, class and shares columns,
+ * and optionally issue price, type, id and role. Amounts may carry currency signs and thousands separators.
+ * @param text CSV text
+ */
+export function parseLedgerCsv(text: string): LedgerEntry[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    throw new ValidationError('ledger', text, 'must have a header line');
+  }
+  const normalise = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const columns = Object.fromEntries(Object.entries(LEDGER_COLUMNS).map(([key, aliases]) =>
+    [key, header.findIndex(name => aliases.includes(normalise(name)))]
+  )) as Record<keyof LedgerEntry, number>;
+  const missing = (['holder', 'shareClass', 'shares'] as const).filter(key => columns[key] < 0);
+  if (missing.length > 0) {
+    throw new ValidationError('ledger', header, `is missing the ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}`);
+  }
+
+  return lines.map((fields, i) => {
+    const line = i + 2;
+    const value = (key: keyof LedgerEntry) => (columns[key] < 0 ? '' : (fields[columns[key]] ?? '').trim());
+    const amount = (key: 'shares' | 'issuePrice') => {
+      const raw = value(key);
+      if (raw === '') return undefined;
+      const parsed = Number(raw.replace(/[$€£,\s]/g, ''));
+      if (Number.isNaN(parsed)) {
+        throw new ValidationError(`line ${line}.${key}`, raw, 'must be a number');
+      }
+      return parsed;
+    };
+    const type = value('type').toLowerCase();
+    if (type !== '' && !TYPES.includes(type as ShareType)) {
+      throw new ValidationError(`line ${line}.type`, type, `must be one of ${TYPES.join(', ')}`);
+    }
+    const role = value('role').toLowerCase();
+    if (role !== '' && !ROLES.includes(role as StakeholderRole)) {
+      throw new ValidationError(`line ${line}.role`, role, `must be one of ${ROLES.join(', ')}`);
+    }
+    const entry: LedgerEntry = {
+      holder: value('holder'),
+      shareClass: value('shareClass'),
+      shares: amount('shares') ?? NaN
+    };
+    const issuePrice = amount('issuePrice');
+    if (issuePrice !== undefined) entry.issuePrice = issuePrice;
+    if (type !== '') entry.type = type as ShareType;
+    if (value('id') !== '') entry.id = value('id');
+    if (role !== '') entry.role = role as StakeholderRole;
+    return entry;
+  });
+}
+
+// CRC-32 of the zip format, one table entry per byte value
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * Pack files into a zip archive, deflating each one
+ */
+function zip(files: { name: string; content: string }[]): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  files.forEach(file => {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034B50, 0);       // Local file header signature
+    header.writeUInt16LE(20, 4);               // Version needed to extract
+    header.writeUInt16LE(0x0800, 6);           // UTF-8 names
+    header.writeUInt16LE(8, 8);                // Deflate
+    header.writeUInt16LE(0, 10);               // DOS time
+    header.writeUInt16LE(0x21, 12);            // DOS date, 1980-01-01
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);               // Extra field length
+    local.push(header, name, compressed);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014B50, 0);        // Central directory signature
+    entry.writeUInt16LE(20, 4);                // Version made by
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt16LE(0, 12);
+    entry.writeUInt16LE(0x21, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);           // Offset of the local header
+    central.push(entry, name);
+
+    offset += header.length + name.length + compressed.length;
+  });
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054B50, 0);            // End of central directory signature
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, directory, end]);
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Spreadsheet column letters: A..Z, AA..
+const columnName = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnName(Math.floor(index / 26) - 1) + columnName(index % 26);
+
+/**
+ * Worksheet XML for rows of cells, with the first row bold
+ */
+function worksheet(rows: Cell[][]): string {
+  const xmlRows = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : '';
+      if (cell === undefined) return '';
+      if (typeof cell === 'number') return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t>${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${xmlRows.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Sheet name Excel accepts: no []:*?/\ and at most 31 characters
+ */
+const sheetName = (index: number, label: string): string =>
+  `${index}. ${label}`.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').slice(0, 31).trim();
+
+/**
+ * Build an XLSX workbook: a summary sheet with each holding's fully diluted percentage
+ * after every event, then one cap table sheet per snapshot
+ * @param history Snapshots in order
+ */
+export function buildXlsx(history: EquitySnapshot[]): Buffer {
+  // Holdings in order of first appearance, keyed by row name and class
+  const key = (e: EquitySnapshot['entries'][number]) => `${e.name}\u0000${e.shareClass}`;
+  const holdings = new Map<string, { name: string; shareClass: string }>();
+  history.forEach(s => s.entries.forEach(e => {
+    if (!holdings.has(key(e))) holdings.set(key(e), { name: e.name, shareClass: e.shareClass });
+  }));
+  const summary: Cell[][] = [
+    ['Holder', 'Class', ...history.map(s => (s.date ? `${s.label} (${s.date})` : s.label))],
+    ...[...holdings].map(([k, h]) => [
+      h.name, h.shareClass,
+      ...history.map(s => s.entries.find(e => key(e) === k)?.percentage ?? 0)
+    ]),
+    ['Total Shares', undefined, ...history.map(s => s.totalShares)]
+  ];
+  const sheets = [
+    { name: 'Summary', rows: summary },
+    ...history.map((s, i) => ({ name: sheetName(i + 1, s.label), rows: [CAP_TABLE_HEADER, ...capTableRows(s)] }))
+  ];
+
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const main = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const rel = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${rel}/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xml}<workbook xmlns="${main}" xmlns:r="${rel}"><sheets>` +
+        sheets.map((s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${rel}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${rel}/styles" Target="styles.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/styles.xml',
+      content: `${xml}<styleSheet xmlns="${main}">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        '</styleSheet>'
+    },
+    ...sheets.map((s, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: worksheet(s.rows) }))
+  ];
+  return zip(files);
+}
+
+/**
+ * Write the current cap table, or every snapshot's, to a CSV file
+ * @param history Snapshots in order
+ * @param outputPath File path to save the CSV
+ * @param allSnapshots Whether to write every snapshot instead of the latest
+ */
+export function writeCsv(history: EquitySnapshot[], outputPath: string, allSnapshots: boolean = false): void {
+  const csv = allSnapshots ? formatHistoryCsv(history) : formatCapTableCsv(history[history.length - 1]);
+  fs.writeFileSync(outputPath, csv);
+  console.log(`Cap table saved to ${outputPath}`);
+}
+
+/**
+ * Write the summary and per-snapshot cap tables to an XLSX workbook
+ * @param history Snapshots in order
+ * @param outputPath File path to save the workbook
+ */
+export function writeXlsx(history: EquitySnapshot[], outputPath: string): void {
+  fs.writeFileSync(outputPath, buildXlsx(history));
+  console.log(`Cap table workbook saved to ${outputPath}`);
+}
@@ -1,47 +1,580 @@
 // Share types
-export type ShareType = 'common' | 'preferred' | 'option';
+export type ShareType = 'common' | 'preferred' | 'option' | 'warrant';
+
+// Anti-dilution protection of a preferred class in a down round
+export type AntiDilution = 'none' | 'broad-based' | 'full-ratchet';
+
+// Economic terms that distinguish one share class from another
+export interface ShareClassTerms {
+  liquidationMultiple: number; // Preference as a multiple of original issue price (1 = 1x)
+  participating: boolean;      // Whether holders also share in the residual after their preference
+  participationCap?: number;   // Cap on total return as a multiple of original issue price
+  conversionRatio: number;     // Common shares received per share on conversion
+  seniority: number;           // Higher is paid first on liquidation; equal values rank pari passu
+  antiDilution: AntiDilution;  // How the conversion ratio adjusts when stock is later sold at a lower price
+  votesPerShare?: number;      // Defaults to 1 for common and the conversion ratio for preferred; options and warrants never vote
+}
+
+// A class or series of stock (e.g. "Common", "Series Seed Preferred", "Series Seed-1 Preferred")
+export interface ShareClass extends ShareClassTerms {
+  name: string;
+  type: ShareType;
+  originalIssuePrice: number; // Price per share paid at issuance (0 for founder common and options)
+}
+
+// A named investor's participation in a priced round
+export interface RoundInvestor extends StakeholderRef {
+  name: string;
+  amount: number;
+}
+
+export interface PricedRoundOptions {
+  shareClass?: Partial<ShareClassTerms> & { name?: string }; // Terms for the new round's preferred class
+  targetPoolPercent?: number; // Post-money option pool target; the top-up comes out of the pre-money
+  investors?: RoundInvestor[]; // Named participants; any unallocated new money goes to a row named after the round
+  date?: string;              // Closing date, used to date the round and accrue note interest (defaults to each note's maturity)
+  proRata?: ProRataOptions;   // How converting SAFE holders with pro-rata rights take up their allocations
+  board?: BoardChange;        // Board seats the round adds or moves
+}
+
+// Board seats a priced round adds or moves
+export interface BoardChange {
+  investor?: number;    // Seats elected by the round's series
+  common?: number;      // Change in the seats elected by the common stock (negative to give seats up)
+  independent?: number; // Seats elected by common and preferred voting together
+}
+
+// Who votes on a matter: the common stock, all preferred as one class, everyone together
+// (preferred as converted), or the holders of one series and its shadow series
+export type Electorate = 'common' | 'preferred' | 'all' | { shareClass: string };
+
+// Board seats elected by one electorate
+export interface BoardSeat {
+  electorate: Electorate;
+  seats: number;
+}
+
+// A vote the company must win, e.g. a protective provision requiring a majority of the preferred
+export interface ProtectiveProvision {
+  name: string;
+  electorate: Electorate;
+  percent: number; // Share of the electorate's votes that must be exceeded (50 for a majority)
+}
+
+// Who decides a vote
+export interface VoteControl {
+  totalVotes: number;
+  controlledBy?: string; // Holder, or failing that role group (e.g. "founders"), with more than the threshold alone
+  group: boolean;        // Whether controlledBy is a role group rather than a single holder
+  blockers: string[];    // Holders who can block the vote alone
+}
+
+// Votes of one share class
+export interface ClassVotes {
+  shareClass: string;
+  type: ShareType;
+  votesPerShare: number;
+  shares: number;
+  votes: number;
+}
+
+// Votes of one stakeholder across its holdings
+export interface HolderVotes {
+  holderId: string;
+  name: string;
+  role: StakeholderRole;
+  votes: number;               // Common and preferred voting together, preferred as converted
+  percentage: number;          // Of all votes
+  commonPercentage: number;    // Of the common stock's votes
+  preferredPercentage: number; // Of the preferred stock's votes, voting as one class
+}
+
+// Voting power and control after one event
+export interface VotingAnalysis {
+  label: string;
+  date?: string;
+  classes: ClassVotes[];
+  holders: HolderVotes[];
+  totalVotes: number;
+  commonVotes: number;
+  preferredVotes: number;
+  board: (BoardSeat & VoteControl)[]; // Each group of seats, with whoever elects them
+  boardSeats: number;
+  founders: {
+    percentage: number;       // Of all votes
+    commonPercentage: number;
+    boardSeats: number;       // Seats elected by a founder or the founders together
+    controlsCommon: boolean;
+    controlsBoard: boolean;
+  };
+  provisions: (ProtectiveProvision & VoteControl)[];
+}
+
+// How pro-rata allocations fit into a priced round
+export interface ProRataOptions {
+  mode?: 'within' | 'on-top';      // Carve allocations out of the new money (default), or raise them on top of it
+  takeUp?: Record<string, number>; // Percent of its allocation each SAFE holder takes up, by name (default 100)
+}
 
 // SAFE types
 export type SafeType = 'pre-money' | 'post-money';
 
+// Stakeholder roles, used to group holders across instruments
+export type StakeholderRole = 'founder' | 'employee' | 'angel' | 'fund' | 'accelerator' | 'pool';
+
+// A person or entity holding equity, possibly through several instruments
+export interface Stakeholder {
+  id: string;
+  name: string;
+  role: StakeholderRole;
+}
+
+// Identifies the stakeholder behind an issuance; the id defaults to a slug of the name
+export interface StakeholderRef {
+  id?: string;
+  role?: StakeholderRole;
+}
+
 export interface Founder {
   name: string;
   ownership: number;
+  id?: string;
+  vesting?: VestingSchedule; // Founder stock subject to repurchase until vested (starts at the formation date)
 }
 
 export interface Pool {
   note: string;
   ownership: number;
+  id?: string;
 }
 
+// How fractional share entitlements become whole shares:
+// 'half-up' rounds to the nearest share, 'round-down' drops the fraction,
+// 'cash-out' drops it and pays its value in cash instead
+export type RoundingPolicy = 'half-up' | 'round-down' | 'cash-out';
+
 export interface CompanyConfig {
   founders?: Founder[];
   pools?: Pool[];
+  rounding?: RoundingPolicy; // Defaults to 'half-up'
+  formationDate?: string;    // ISO date (YYYY-MM-DD) of the initial cap table
+  ledger?: LedgerEntry[];    // Existing holdings in absolute shares, instead of founder and pool percentages
+  boardSeats?: number;       // Seats elected by the common stock (defaults to one per founder)
+}
+
+// One line of a share ledger: a block of shares one holder owns in one class
+export interface LedgerEntry {
+  holder: string;
+  shareClass: string;     // e.g. "Common", "Series Seed Preferred", "Option Pool"
+  shares: number;
+  issuePrice?: number;    // Price paid per share (0 or absent for founder common and the option pool)
+  type?: ShareType;       // Inferred from the class name when absent; 'warrant' is not accepted
+  id?: string;
+  role?: StakeholderRole; // Defaults to founder for common, fund for preferred and pool for options
+}
+
+// A fractional share entitlement that was rounded when shares were issued
+export interface RoundingRecord {
+  label: string;       // Snapshot label of the event
+  name: string;        // Cap table row the shares were issued to
+  exactShares: number; // Entitlement before rounding
+  shares: number;      // Whole shares issued
+  remainder: number;   // Shares issued less the entitlement
+  cashOut?: number;    // Cash paid in lieu of the fraction, under the 'cash-out' policy
+}
+
+// Result of checking that the cap table ties out
+export interface Reconciliation {
+  ok: boolean;
+  totalShares: number;  // Fully diluted total the company tracks
+  rowShares: number;    // Sum of the rows, as converted
+  issuedShares: number;
+  problems: string[];   // Each mismatch found, empty when ok
 }
 
 export interface CapTableEntry {
   name: string;
   shares: number;
   type: ShareType;
+  shareClass: string; // Name of the ShareClass these shares belong to
+  holderId: string;   // Stakeholder holding these shares
+  invested?: number;  // Capital paid in for these shares
+  pool?: string;      // For granted options, the pool they were granted out of
+}
+
+// Events that accelerate vesting: a change of control alone, or a change of control
+// followed by termination without cause
+export type AccelerationTrigger = 'single' | 'double';
+
+export interface Acceleration {
+  trigger: AccelerationTrigger;
+  percent?: number; // Share of the unvested shares that vest at once (defaults to 100)
+}
+
+// Vesting schedule of founder stock or an option grant: nothing before the cliff, then monthly
+export interface VestingSchedule {
+  months: number;      // Total vesting period (e.g. 48)
+  cliffMonths: number; // Nothing vests before the cliff (e.g. 12)
+  startDate?: string;  // Vesting commencement (defaults to the grant date, or the formation date for founders)
+  acceleration?: Acceleration;
+}
+
+// Founder shares that vest over time; the company may buy back the unvested part on departure
+export interface RestrictedStock {
+  name: string;              // Cap table row holding the shares
+  holderId: string;
+  shares: number;            // Shares subject to vesting
+  vesting: VestingSchedule;
+  startDate: string;
+  acceleratedShares: number; // Vested early by an acceleration trigger
+  departureDate?: string;    // Vesting stops on departure
+  repurchased: number;       // Unvested shares bought back on departure
+}
+
+// How much of a vesting holding has vested by a date
+export interface VestingStatus {
+  name: string;
+  holderId: string;
+  kind: 'stock' | 'options';
+  shares: number;     // Subject to vesting, less options cancelled and stock repurchased
+  vested: number;
+  unvested: number;
+  startDate: string;
+  cliffDate: string;
+  vestedDate: string; // When the last shares vest on schedule
+  acceleratedShares: number;
+  departureDate?: string;
+}
+
+// Terms of a founder or employee leaving the company
+export interface DepartureOptions {
+  withoutCause?: boolean;       // Termination without cause, the second trigger of double-trigger acceleration
+  repurchaseUnvested?: boolean; // Buy back unvested founder stock (default: true); unvested options are always cancelled
+  price?: number;               // Price per share paid for unvested stock, for the record
+}
+
+export interface OptionGrantTerms {
+  strikePrice: number;
+  grantDate: string;         // ISO date (YYYY-MM-DD)
+  vesting?: VestingSchedule; // Defaults to 4 years with a 1 year cliff
+  pool?: string;             // Pool to grant from (defaults to the first pool)
+  holder?: StakeholderRef;   // Defaults to an employee named after the grantee
+}
+
+// Terms of a secondary sale of shares from one holder to another
+export interface TransferOptions {
+  shareClass?: string;     // Class sold, if the seller holds several
+  price?: number;          // Price per share paid to the seller, for the record
+  holder?: StakeholderRef; // Buyer's id and role (defaults to an angel named after the buyer)
+  date?: string;           // ISO date (YYYY-MM-DD) of the sale
+}
+
+// Terms of a company repurchase of shares, which are then cancelled
+export interface RepurchaseOptions {
+  shareClass?: string; // Class repurchased, if the holder holds several
+  price?: number;      // Price per share paid by the company, for the record
+  date?: string;       // ISO date (YYYY-MM-DD) of the repurchase
+}
+
+// Options granted to a named employee out of a pool
+export interface OptionGrant extends Required<Omit<OptionGrantTerms, 'holder'>> {
+  employee: string;
+  holderId: string;
+  shares: number;
+  exercised: number;
+  cancelled: number; // Returned to the pool
+  acceleratedShares: number; // Vested early by an acceleration trigger
+  departureDate?: string;    // Vesting stops on departure
+}
+
+// Where the shares reserved in an option pool have gone
+export interface OptionPoolStatus {
+  pool: string;
+  size: number;        // Unallocated plus outstanding plus exercised
+  granted: number;
+  exercised: number;
+  cancelled: number;
+  outstanding: number; // Granted, not yet exercised or cancelled
+  unallocated: number; // Still available to grant
+}
+
+// Rights a SAFE holder is granted in a side letter
+export interface SafeRights {
+  proRata?: boolean; // May buy its pro-rata share of the priced round the SAFE converts in
+  mfn?: boolean;     // Most favored nation: takes the better cap or discount of any SAFE of the same type signed later
+  terms?: string[];  // Other side-letter terms, recorded as given (e.g. 'information rights')
+}
+
+// Terms an MFN holder took from a later SAFE
+export interface MfnUpgrade {
+  from: string; // Name on the later SAFE
+  cap: number | 'uncapped';
+  discount?: number;
 }
 
 export interface Safe {
   cap: number | 'uncapped';
   amount: number;
   name: string;
+  holderId: string;
   converted: boolean;
   discount?: number; // Discount rate (0-100%)
   type: SafeType;
+  rights?: SafeRights;
+  mfnUpgrades?: MfnUpgrade[]; // Terms taken from later SAFEs, in order
+  conversion?: InstrumentConversion; // Set once converted in a priced round (or at its cap in an acquisition)
+  settlement?: SafeSettlement;       // Set once settled in an acquisition or dissolution
+}
+
+// Kind of event that ends the company before (or instead of) a priced round
+export type LiquidityEventType = 'acquisition' | 'dissolution';
+
+// How an outstanding SAFE was settled when the company was sold or wound up
+export interface SafeSettlement {
+  event: LiquidityEventType;
+  label: string;                        // Label of the snapshot recording the event
+  method: 'cash-out' | 'conversion';    // Purchase amount back, or common shares at the cap
+  shares: number;                       // Common shares received (0 for a cash-out)
+  payout: number;                       // Proceeds received
+}
+
+// An outstanding SAFE's claim on the proceeds of an acquisition or dissolution
+export interface SafeClaim {
+  name: string;
+  holderId: string;
+  role: StakeholderRole;
+  amount: number; // Cash-out amount (the purchase amount)
+  shares: number; // Common shares it converts into at its cap instead (0 if it cannot convert)
+}
+
+// Which candidate price a SAFE or note converted at
+export type ConversionMethod = 'round' | 'discount' | 'cap';
+
+// Where a SAFE or note converted, and the math behind its share count
+export interface InstrumentConversion {
+  round: string;           // Round name, or 'Maturity' for notes converting without a financing
+  shareClass: string;
+  amount: number;          // Amount converted (including note interest)
+  roundPrice?: number;     // Price per share of the financing, if any
+  discountPrice?: number;  // Round price less the discount, if there is one
+  capPrice?: number;       // Cap divided by the capitalization, if capped
+  capitalization?: number; // Share count the cap was divided by
+  method: ConversionMethod; // Which of the candidate prices was lowest
+  price: number;           // Conversion price per share
+  exactShares: number;     // Amount divided by price, before rounding
+  shares: number;          // Shares issued
+  remainder: number;       // Shares issued less exact shares (the fraction rounded away)
+}
+
+// A conversion together with the instrument it belongs to
+export interface ConversionAuditEntry extends InstrumentConversion {
+  instrument: 'SAFE' | 'Note';
+  name: string;
+  holderId: string;
+}
+
+// Number of shares and price at which part of an option or warrant row can be exercised
+export interface ExerciseTranche {
+  shares: number;
+  exercisePrice: number;
+}
+
+export interface WarrantTerms {
+  shares?: number;                               // Share count, or
+  coverage?: { percent: number; amount: number }; // coverage: percent of a loan amount, divided by the exercise price
+  exercisePrice: number;
+  expiryDate: string;      // ISO date (YYYY-MM-DD)
+  issueDate?: string;      // ISO date (YYYY-MM-DD)
+  holder?: StakeholderRef; // Defaults to a fund named after the holder
+}
+
+// A warrant to buy common shares at a fixed price until it expires
+export interface Warrant {
+  name: string;
+  holderId: string;
+  shares: number;
+  exercisePrice: number;
+  expiryDate: string;
+  issueDate?: string;
+  exercised: boolean;
+  expired: boolean;
+}
+
+// Convertible note types
+export type InterestType = 'simple' | 'compound';
+export type MaturityBehavior = 'convert' | 'repay' | 'extend';
+
+export interface NoteOptions {
+  interestType?: InterestType;         // Defaults to simple interest
+  maturityBehavior?: MaturityBehavior; // What happens at maturity without a priced round (defaults to convert)
+  extensionMonths?: number;            // Term added when maturityBehavior is 'extend' (defaults to 12)
+  holder?: StakeholderRef;
+}
+
+export interface ConvertibleNote {
+  name: string;
+  holderId: string;
+  principal: number;
+  interestRate: number; // Annual interest rate (0-100%)
+  cap: number | 'uncapped';
+  discount?: number;    // Discount rate (0-100%)
+  issueDate: string;    // ISO date (YYYY-MM-DD)
+  maturityDate: string; // ISO date (YYYY-MM-DD)
+  interestType: InterestType;
+  maturityBehavior: MaturityBehavior;
+  extensionMonths: number;
+  converted: boolean;
+  repaid: boolean;
+  conversion?: InstrumentConversion; // Set once converted
 }
 
 // Define a snapshot of equity at a point in time
 export interface EquitySnapshot {
   label: string;
+  date?: string; // ISO date of the event, when known
   entries: {
     name: string;
     shares: number;
     type: ShareType;
-    percentage: number;
+    shareClass: string;
+    holderId: string;
+    role: StakeholderRole;
+    asConvertedShares: number; // Shares times the class conversion ratio
+    percentage: number;       // Of fully diluted shares
+    issuedPercentage: number; // Of issued and outstanding shares (0 for options and warrants)
+    treasuryShares: number;     // Net shares under the treasury stock method at the snapshot's share price
+    treasuryPercentage: number; // Of treasury-method diluted shares
+    tranches?: ExerciseTranche[]; // Exercise prices of outstanding options and warrants
+    invested?: number;
+    pool?: string;
   }[];
+  shareClasses: ShareClass[];
+  stakeholders: Stakeholder[];
+  totalShares: number;    // Fully diluted and as-converted, including the option pool, outstanding options and warrants
+  issuedShares: number;   // Issued and outstanding (as-converted), excluding options and warrants
+  treasuryShares: number; // Issued plus the net shares from in-the-money options and warrants
+  sharePrice?: number;    // Price of the latest priced round, used for the treasury stock method
+  board?: BoardSeat[];    // Board composition after the event
+}
+
+// One holding measured on each ownership basis
+export interface OwnershipBasis {
+  name: string;
+  holderId: string;
+  type: ShareType;
+  issuedShares: number;
+  issuedPercentage: number;
+  fullyDilutedShares: number;
+  fullyDilutedPercentage: number;
+  treasuryShares: number;
+  treasuryPercentage: number;
+}
+
+// A stakeholder's position rolled up across all of its instruments
+export interface HolderSummary extends Stakeholder {
+  shares: number;
+  asConvertedShares: number;
+  percentage: number; // Of fully diluted shares
+  instruments: string[]; // Cap table rows held (e.g. "Investor 1", "Investor 1 (SAFE)")
+}
+
+// Final per-holder position in each of several scenario branches
+export interface BranchComparison {
+  branches: string[]; // Branch labels, in the order given
+  holders: (Stakeholder & {
+    shares: number[];      // As-converted shares at the end of each branch (0 if absent)
+    percentages: number[]; // Fully diluted ownership at the end of each branch
+  })[];
+}
+
+// Liquidation preference terms applied to a preferred holder on exit
+export interface LiquidationPreference {
+  multiple: number;          // Preference as a multiple of the purchase price (1 = 1x)
+  participating: boolean;    // Whether the holder also shares in the residual after its preference
+  participationCap?: number; // Cap on total return as a multiple of the purchase price (participating only)
+  seniority: number;         // Higher is paid first; equal values rank pari passu
+}
+
+export interface ExitOptions {
+  label?: string;
+  defaultPreference?: Partial<LiquidationPreference>;    // Overrides the share class terms of every preferred holder
+  preferences?: Record<string, Partial<LiquidationPreference>>; // Overrides by share class or holder name
+  includeUnallocatedOptions?: boolean; // Let the option pool share in proceeds (default: false)
+  event?: LiquidityEventType;          // How outstanding SAFEs are treated (default: 'acquisition')
+  date?: string;                       // ISO date of an acquisition or dissolution, needed for single-trigger acceleration
+}
+
+// What a single holder takes home from an exit
+export interface ExitPayout {
+  name: string;
+  type: ShareType;
+  shareClass: string;
+  holderId: string;
+  role: StakeholderRole;
+  shares: number;        // Shares sharing in the proceeds (options and warrants only when in the money)
+  invested: number;
+  preference: number;    // Paid out of the liquidation preference stack
+  participation: number; // Paid out of the residual (as common, as-converted or participating)
+  exerciseCost: number;  // Exercise price of in-the-money options or warrants, netted off their participation
+  total: number;
+  percentage: number;    // Share of the sale proceeds
+  converted: boolean;    // True if the preferred holder chose to convert to common
+}
+
+// Distribution of sale proceeds across all holders
+export interface ExitWaterfall {
+  label: string;
+  saleValue: number;
+  payouts: ExitPayout[];
+  undistributed: number; // Proceeds left over once every participant hit its cap
+}
+
+// Full internal state of a Company, as produced by Company.toJSON()
+export interface CompanyState {
+  schemaVersion: number;
+  capTable: CapTableEntry[];
   totalShares: number;
-}
\ No newline at end of file
+  shareClasses: ShareClass[];
+  stakeholders: Stakeholder[];
+  safes: Safe[];
+  notes: ConvertibleNote[];
+  optionGrants: OptionGrant[];
+  warrants: Warrant[];
+  sharePrice?: number;
+  rounding: RoundingPolicy;
+  roundingLog: RoundingRecord[];
+  restrictedStock: RestrictedStock[];
+  changeOfControl?: { label: string; date?: string }; // Acquisition, the first trigger of double-trigger acceleration
+  closed?: { event: LiquidityEventType; label: string; date?: string }; // Acquisition or dissolution after which no further events apply
+  board: BoardSeat[];
+  rounds: string[]; // Names of priced rounds so far
+  history: EquitySnapshot[];
+}
+
+// Events that can be replayed from a scenario file, one per public Company method
+export type ScenarioEvent =
+  | { event: 'giveEquity'; percent: number; name: string; shareType?: ShareType; holder?: StakeholderRef; date?: string }
+  | { event: 'signSafe'; cap: number | 'uncapped'; amount: number; name: string; discount?: number; safeType?: SafeType; holder?: StakeholderRef; date?: string }
+  | { event: 'sideLetter'; name: string; rights: SafeRights }
+  | { event: 'signNote'; principal: number; interestRate: number; cap: number | 'uncapped'; discount?: number; issueDate: string; maturityDate: string; name: string; options?: NoteOptions }
+  | { event: 'matureNotes'; asOf: string; valuation?: number }
+  | { event: 'pricedRound'; preMoneyValuation: number; newMoney: number; name?: string; options?: PricedRoundOptions }
+  | { event: 'grantOptions'; employee: string; shares: number; terms: OptionGrantTerms }
+  | { event: 'exerciseOptions'; employee: string; shares?: number }
+  | { event: 'cancelOptions'; employee: string; shares?: number }
+  | { event: 'depart'; name: string; date: string; options?: DepartureOptions }
+  | { event: 'transferShares'; from: string; to: string; shares: number; options?: TransferOptions }
+  | { event: 'repurchaseShares'; name: string; shares?: number; options?: RepurchaseOptions }
+  | { event: 'split'; ratio: number; oldShares?: number }
+  | { event: 'issueWarrant'; name: string; terms: WarrantTerms }
+  | { event: 'exerciseWarrant'; name: string }
+  | { event: 'expireWarrants'; asOf: string }
+  | { event: 'acquire'; saleValue: number; name?: string; options?: ExitOptions }
+  | { event: 'dissolve'; netAssets: number; name?: string; options?: ExitOptions };
+
+// Declarative description of a company and the events applied to it
+export interface Scenario {
+  company: CompanyConfig;
+  initialShareCount?: number;
+  events: ScenarioEvent[];
+}
@@ -0,0 +1,36 @@
+import { addMonths, monthsBetween } from './dates.js';
+import { VestingSchedule } from './types.js';
+
+/**
+ * Shares vested on schedule by a date: nothing before the cliff, then one more month's worth
+ * at each monthly anniversary of the start, rounded down
+ * @param shares Shares subject to vesting
+ * @param schedule Vesting schedule
+ * @param startDate Vesting commencement date
+ * @param asOf ISO date (YYYY-MM-DD)
+ */
+export function vestedShares(shares: number, schedule: VestingSchedule, startDate: string, asOf: string): number {
+  if (asOf < startDate) {
+    return 0;
+  }
+  const months = monthsBetween(startDate, asOf);
+  if (months < schedule.cliffMonths) {
+    return 0;
+  }
+  if (months >= schedule.months) {
+    return shares;
+  }
+  return Math.floor((shares * months) / schedule.months);
+}
+
+/**
+ * Dates on which the cliff is reached and the last shares vest
+ * @param schedule Vesting schedule
+ * @param startDate Vesting commencement date
+ */
+export function vestingDates(schedule: VestingSchedule, startDate: string): { cliffDate: string; vestedDate: string } {
+  return {
+    cliffDate: addMonths(startDate, schedule.cliffMonths),
+    vestedDate: addMonths(startDate, schedule.months)
+  };
+}
@@ -1,6 +1,6 @@
-import { createCanvas } from 'canvas';
-import fs from 'fs';
-import { EquitySnapshot, ShareType } from './types.js';
+import { ChartFormat, ChartLayout, ChartRecorder, saveChart } from './renderers.js';
+import { EquitySnapshot, ExitWaterfall, HolderVotes, ShareType, StakeholderRole, VotingAnalysis } from './types.js';
+import { analyzeVoting } from './voting.js';
 
 // Color palette for visualization
 export const COLORS = {
@@ -8,6 +8,7 @@ export const COLORS = {
   common: '#3498db',    // River blue
   preferred: '#e74c3c', // Alizarin red
   option: '#f39c12',    // Dull orange
+  warrant: '#7f8c8d',   // Asbestos
   
   // Colors for individual stakeholders
   founder1: '#1abc9c',  // Turquoise
@@ -19,6 +20,7 @@ export const COLORS = {
   investor5: '#2ecc71', // Emerald
   investor6: '#27ae60', // Nephritis
   employee: '#cddc39',  // Lime
+  grantee: '#9e9d24',   // Olive
   seed: '#c0392b',      // Pomegranate
   seriesA: '#8bc34a',   // Light green
   seriesB: '#2980b9',   // Belize
@@ -27,56 +29,13 @@ export const COLORS = {
 };
 
 /**
- * Generate a visualization of equity dilution over time
- * @param history Array of equity snapshots
- * @param outputPath File path to save the visualization (PNG)
- * @param width Width of the output image (default: 1600px)
+ * Create a resolver that maps entity names to consistent colors across a chart
  */
-export function plotEquityDilution(
-  history: EquitySnapshot[], 
-  outputPath: string = 'equity-dilution.png', 
-  width: number = 1600
-): void {
-  // Calculate the base width (pre-scaling)
-  const baseWidth = width / 2;
-  
-  // Canvas setup with high resolution (2x display density)
-  const scale = 2; // Increase resolution by 2x for retina-like quality
-  const rowHeight = 120;
-  const height = (history.length * rowHeight + 150); // Extra padding at bottom
-  
-  // Create canvas with the full scaled dimensions
-  const canvas = createCanvas(width, height * scale);
-  const ctx = canvas.getContext('2d');
-  
-  // Scale all drawing operations
-  ctx.scale(scale, scale);
-  
-  // Fill background
-  ctx.fillStyle = '#fcfcfc'; // Off-white background
-  ctx.fillRect(0, 0, baseWidth, height);
-  
-  // Draw title
-  ctx.font = 'bold 22px Arial';
-  ctx.fillStyle = '#34495e'; // Asphalt color for text
-  ctx.fillText('Equity Dilution Visualization', 20, 30);
-  
-  // Draw semi-transparent background for legend (will be filled in last snapshot)
-  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
-  ctx.fillRect(baseWidth - 360, 10, 340, 200);
-  
-  // Setup
-  const barHeight = 60;
-  const textPadding = 5;
-  const leftMargin = 20;
-  const rightMargin = 20;
-  const barWidth = baseWidth - leftMargin - rightMargin;
-  
-  // Map entity names to consistent colors
+export function createEntityColorResolver(): (name: string, type: ShareType, role?: StakeholderRole) => string {
   const entityColorMap = new Map<string, string>();
+  let founderCount = 0;
   
-  // Assign consistent colors to entities
-  const getEntityColor = (name: string, type: ShareType): string => {
+  return (name: string, type: ShareType, role?: StakeholderRole): string => {
     // Special case for founders
     if (name === 'Founders') {
       return COLORS.founder1;
@@ -87,13 +46,15 @@ export function plotEquityDilution(
       return entityColorMap.get(name)!;
     }
     
-    // First-time assignment based on name and type
+    // First-time assignment based on role, then name and type
     let color = '';
     
-    if (name.toLowerCase().includes('founder') || name === 'Name1' || name === 'Name2') {
-      color = name === 'Name1' ? COLORS.founder1 : COLORS.founder2;
-    } else if (name.toLowerCase().includes('pool') || name.toLowerCase().includes('employee')) {
+    if (role === 'founder') {
+      color = founderCount++ === 0 ? COLORS.founder1 : COLORS.founder2;
+    } else if (role === 'pool') {
       color = COLORS.employee;
+    } else if (role === 'employee') {
+      color = COLORS.grantee;
     } else if (name.toLowerCase().includes('series a') || name === 'Series A') {
       color = COLORS.seriesA;
     } else if (name.toLowerCase().includes('series b')) {
@@ -125,6 +86,135 @@ export function plotEquityDilution(
     entityColorMap.set(name, color);
     return color;
   };
+}
+
+type SnapshotEntry = EquitySnapshot['entries'][number];
+
+/**
+ * Black or white, whichever reads better on the given background color
+ */
+export function contrastTextColor(color: string): string {
+  // Simple luminance calculation to determine if we should use white or black text
+  const r = parseInt(color.slice(1, 3), 16);
+  const g = parseInt(color.slice(3, 5), 16);
+  const b = parseInt(color.slice(5, 7), 16);
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.5 ? '#000000' : '#ffffff';
+}
+
+/**
+ * Combine the rows of each stakeholder (e.g. a common grant, a converted SAFE and
+ * round participation) into a single entry named after the stakeholder
+ */
+export function rollUpByHolder(snapshot: EquitySnapshot): SnapshotEntry[] {
+  const byHolder = new Map<string, SnapshotEntry>();
+  
+  snapshot.entries.forEach(entry => {
+    const existing = byHolder.get(entry.holderId);
+    if (existing) {
+      existing.shares += entry.shares;
+      existing.asConvertedShares += entry.asConvertedShares;
+      existing.percentage += entry.percentage;
+      existing.issuedPercentage += entry.issuedPercentage;
+      existing.treasuryShares += entry.treasuryShares;
+      existing.treasuryPercentage += entry.treasuryPercentage;
+      return;
+    }
+    const holder = snapshot.stakeholders.find(h => h.id === entry.holderId);
+    byHolder.set(entry.holderId, { ...entry, name: holder?.name ?? entry.name });
+  });
+  
+  return Array.from(byHolder.values());
+}
+
+/**
+ * Entries as shown in the charts: each holder's instruments rolled up, founders
+ * combined into a single "Founders" entry first, then sorted by share type
+ */
+export function chartEntries(snapshot: EquitySnapshot): SnapshotEntry[] {
+  let processedEntries = rollUpByHolder(snapshot);
+  
+  // Find founder entries
+  const founderEntries = processedEntries.filter(entry => entry.role === 'founder');
+  
+  // If we have founder entries, combine them
+  if (founderEntries.length > 0) {
+    // Remove original founder entries
+    processedEntries = processedEntries.filter(entry => entry.role !== 'founder');
+    
+    // Calculate total founder shares and percentage
+    const totalFounderShares = founderEntries.reduce((sum, entry) => sum + entry.asConvertedShares, 0);
+    const founderPercentage = (totalFounderShares / snapshot.totalShares) * 100;
+    
+    // Add combined founder entry at the beginning
+    processedEntries.unshift({
+      ...founderEntries[0],
+      name: 'Founders',
+      shares: totalFounderShares,
+      type: 'common', // Founders typically have common shares
+      asConvertedShares: totalFounderShares,
+      percentage: founderPercentage,
+      issuedPercentage: (totalFounderShares / snapshot.issuedShares) * 100,
+      treasuryShares: totalFounderShares,
+      treasuryPercentage: founderEntries.reduce((sum, entry) => sum + entry.treasuryPercentage, 0)
+    });
+  }
+  
+  // Sort entries by type for better visualization
+  return [...processedEntries].sort((a, b) => {
+    // Keep founders first
+    if (a.name === 'Founders') return -1;
+    if (b.name === 'Founders') return 1;
+    
+    // Then sort by type
+    const typeOrder = { common: 1, option: 2, warrant: 3, preferred: 4 };
+    return typeOrder[a.type] - typeOrder[b.type];
+  });
+}
+
+/**
+ * Lay out the equity dilution chart: one stacked bar per snapshot, with a legend
+ * @param history Array of equity snapshots
+ * @param width Width of the output image (default: 1600px); the layout is half of it, rendered at 2x
+ * @param title Chart title
+ * @param showDates Show the date of each event, when known, at the right of its label
+ */
+export function layoutEquityDilution(
+  history: EquitySnapshot[], 
+  width: number = 1600,
+  title: string = 'Equity Dilution Visualization',
+  showDates: boolean = false
+): ChartLayout {
+  // Calculate the base width (pre-scaling)
+  const baseWidth = width / 2;
+  
+  const rowHeight = 120;
+  const height = (history.length * rowHeight + 150); // Extra padding at bottom
+  
+  const ctx = new ChartRecorder(baseWidth, height);
+  
+  // Fill background
+  ctx.fillStyle = '#fcfcfc'; // Off-white background
+  ctx.fillRect(0, 0, baseWidth, height);
+  
+  // Draw title
+  ctx.font = 'bold 22px Arial';
+  ctx.fillStyle = '#34495e'; // Asphalt color for text
+  ctx.fillText(title, 20, 30);
+  
+  // Draw semi-transparent background for legend (will be filled in last snapshot)
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.fillRect(baseWidth - 360, 10, 340, 200);
+  
+  // Setup
+  const barHeight = 60;
+  const textPadding = 5;
+  const leftMargin = 20;
+  const rightMargin = 20;
+  const barWidth = baseWidth - leftMargin - rightMargin;
+  
+  // Assign consistent colors to entities
+  const getEntityColor = createEntityColorResolver();
   
   // Add more top padding to accommodate the legend
   const topPadding = 175;
@@ -137,59 +227,23 @@ export function plotEquityDilution(
     ctx.font = 'bold 14px Arial';
     ctx.fillStyle = '#34495e'; // Asphalt color for text
     ctx.fillText(snapshot.label, leftMargin, y - 10);
+    if (showDates && snapshot.date) {
+      ctx.font = '13px Arial';
+      ctx.fillStyle = '#7f8c8d';
+      ctx.fillText(snapshot.date, baseWidth - rightMargin - ctx.measureText(snapshot.date).width, y - 10);
+    }
     
     // Draw bar segments
     let xOffset = leftMargin;
     
-    // First, process entries to group founders
-    let processedEntries = [...snapshot.entries];
-    
-    // Find founder entries
-    const founderEntries = processedEntries.filter(entry => 
-      entry.name === 'Name1' || 
-      entry.name === 'Name2' || 
-      entry.name.toLowerCase().includes('founder')
-    );
-    
-    // If we have founder entries, combine them
-    if (founderEntries.length > 0) {
-      // Remove original founder entries
-      processedEntries = processedEntries.filter(entry => 
-        !(entry.name === 'Name1' || 
-          entry.name === 'Name2' || 
-          entry.name.toLowerCase().includes('founder'))
-      );
-      
-      // Calculate total founder shares and percentage
-      const totalFounderShares = founderEntries.reduce((sum, entry) => sum + entry.shares, 0);
-      const founderPercentage = (totalFounderShares / snapshot.totalShares) * 100;
-      
-      // Add combined founder entry at the beginning
-      processedEntries.unshift({
-        name: 'Founders',
-        shares: totalFounderShares,
-        type: 'common', // Founders typically have common shares
-        percentage: founderPercentage
-      });
-    }
-    
-    // Sort entries by type for better visualization
-    const sortedEntries = [...processedEntries].sort((a, b) => {
-      // Keep founders first
-      if (a.name === 'Founders') return -1;
-      if (b.name === 'Founders') return 1;
-      
-      // Then sort by type
-      const typeOrder = { common: 1, option: 2, preferred: 3 };
-      return typeOrder[a.type] - typeOrder[b.type];
-    });
+    const sortedEntries = chartEntries(snapshot);
     
     sortedEntries.forEach(entry => {
       // Calculate width of this segment
-      const segmentWidth = (entry.shares / snapshot.totalShares) * barWidth;
+      const segmentWidth = (entry.asConvertedShares / snapshot.totalShares) * barWidth;
       
       // Get color for this entity
-      const color = getEntityColor(entry.name, entry.type);
+      const color = getEntityColor(entry.name, entry.type, entry.role);
       
       // Draw rectangle for this equity holder
       ctx.fillStyle = color;
@@ -203,12 +257,7 @@ export function plotEquityDilution(
       // Only add label if segment is wide enough
       if (segmentWidth > 50) {
         // Calculate text color for better contrast
-        // Simple luminance calculation to determine if we should use white or black text
-        const r = parseInt(color.slice(1, 3), 16);
-        const g = parseInt(color.slice(3, 5), 16);
-        const b = parseInt(color.slice(5, 7), 16);
-        const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-        const textColor = luminance > 0.5 ? '#000000' : '#ffffff';
+        const textColor = contrastTextColor(color);
         
         // Draw entity name
         ctx.font = '12px Arial';
@@ -269,15 +318,11 @@ export function plotEquityDilution(
       // Get all stakeholders from the last snapshot for a complete legend
       const lastSnapshot = history[history.length - 1];
       
-      // Process the last snapshot to combine founders
-      let finalEntries = [...lastSnapshot.entries];
+      // Process the last snapshot to roll up holders
+      const finalEntries = rollUpByHolder(lastSnapshot);
       
       // Find founder entries in the last snapshot
-      const finalFounderEntries = finalEntries.filter(entry => 
-        entry.name === 'Name1' || 
-        entry.name === 'Name2' || 
-        entry.name.toLowerCase().includes('founder')
-      );
+      const finalFounderEntries = finalEntries.filter(entry => entry.role === 'founder');
       
       // If we have founder entries, use a combined "Founders" entry
       if (finalFounderEntries.length > 0) {
@@ -288,10 +333,7 @@ export function plotEquityDilution(
       }
       
       // Group employee pools
-      const poolNames = finalEntries.filter(entry => 
-        entry.name.toLowerCase().includes('pool') || 
-        entry.name.toLowerCase().includes('employee'))
-        .map(entry => entry.name);
+      const poolNames = finalEntries.filter(entry => entry.role === 'pool').map(entry => entry.name);
       
       if (poolNames.length > 0) {
         stakeholderGroups.set('Employee Pool', { 
@@ -300,28 +342,25 @@ export function plotEquityDilution(
         });
       }
       
+      // Group employees holding granted or exercised options
+      const employeeNames = finalEntries.filter(entry => entry.role === 'employee').map(entry => entry.name);
+      
+      if (employeeNames.length > 0) {
+        stakeholderGroups.set('Employees', { 
+          color: COLORS.grantee, 
+          entries: employeeNames 
+        });
+      }
+      
       // Add all other stakeholders individually
-      finalEntries.forEach(entry => {
-        const isFounder = entry.name === 'Name1' || entry.name === 'Name2' || 
-                         entry.name.toLowerCase().includes('founder');
-        const isPool = poolNames.includes(entry.name);
-        
-        if (!isFounder && !isPool) {
-          const color = getEntityColor(entry.name, entry.type);
-          let groupName = entry.name;
-          
-          // For SAFEs, format consistently
-          if (entry.name.includes('(SAFE)')) {
-            const baseName = entry.name.replace(' (SAFE)', '');
-            groupName = `${baseName} (SAFE)`;
-          }
-          
-          stakeholderGroups.set(groupName, { 
-            color: color, 
+      finalEntries
+        .filter(entry => entry.role !== 'founder' && entry.role !== 'pool' && entry.role !== 'employee')
+        .forEach(entry => {
+          stakeholderGroups.set(entry.name, { 
+            color: getEntityColor(entry.name, entry.type, entry.role), 
             entries: [entry.name] 
           });
-        }
-      });
+        });
       
       // Convert map to array for easier processing
       const groupEntries = Array.from(stakeholderGroups.entries());
@@ -332,6 +371,8 @@ export function plotEquityDilution(
         if (b[0] === 'Founders') return 1;
         if (a[0] === 'Employee Pool') return -1;
         if (b[0] === 'Employee Pool') return 1;
+        if (a[0] === 'Employees') return -1;
+        if (b[0] === 'Employees') return 1;
         
         // Sort remaining entries alphabetically
         return a[0].localeCompare(b[0]);
@@ -363,9 +404,532 @@ export function plotEquityDilution(
     }
   });
   
-  // Save to file
-  const buffer = canvas.toBuffer('image/png');
-  fs.writeFileSync(outputPath, buffer);
-  
+  return ctx.layout();
+}
+
+/**
+ * Generate a visualization of equity dilution over time
+ * @param history Array of equity snapshots
+ * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+ * @param width Width of the output image (default: 1600px)
+ * @param title Chart title
+ * @param format Output format (defaults to the file extension)
+ * @param showDates Show the date of each event next to its label
+ */
+export function plotEquityDilution(
+  history: EquitySnapshot[], 
+  outputPath: string = 'equity-dilution.png', 
+  width: number = 1600,
+  title: string = 'Equity Dilution Visualization',
+  format?: ChartFormat,
+  showDates: boolean = false
+): void {
+  saveChart(layoutEquityDilution(history, width, title, showDates), outputPath, format);
   console.log(`Equity dilution visualization saved to ${outputPath}`);
-}
\ No newline at end of file
+}
+
+/**
+ * Lay out the exit chart: one stacked bar of proceeds per sale value
+ * @param waterfalls Exit waterfalls to compare, one bar each
+ * @param width Width of the output image (default: 1600px)
+ */
+export function layoutExitWaterfall(waterfalls: ExitWaterfall[], width: number = 1600): ChartLayout {
+  const baseWidth = width / 2;
+  const rowHeight = 120;
+  const topPadding = 80;
+  const height = (waterfalls.length * rowHeight + topPadding + 40);
+  
+  const ctx = new ChartRecorder(baseWidth, height);
+  
+  ctx.fillStyle = '#fcfcfc';
+  ctx.fillRect(0, 0, baseWidth, height);
+  
+  ctx.font = 'bold 22px Arial';
+  ctx.fillStyle = '#34495e';
+  ctx.fillText('Exit Proceeds by Holder', 20, 30);
+  
+  const barHeight = 60;
+  const leftMargin = 20;
+  const rightMargin = 20;
+  const barWidth = baseWidth - leftMargin - rightMargin;
+  const getEntityColor = createEntityColorResolver();
+  
+  waterfalls.forEach((waterfall, index) => {
+    const y = topPadding + index * rowHeight;
+    
+    ctx.font = 'bold 14px Arial';
+    ctx.fillStyle = '#34495e';
+    ctx.fillText(waterfall.label, leftMargin, y - 10);
+    
+    let xOffset = leftMargin;
+    
+    waterfall.payouts
+      .filter(payout => payout.total > 0)
+      .forEach(payout => {
+        const segmentWidth = waterfall.saleValue > 0 ? (payout.total / waterfall.saleValue) * barWidth : 0;
+        const color = getEntityColor(payout.name, payout.type, payout.role);
+        
+        ctx.fillStyle = color;
+        ctx.fillRect(xOffset, y, segmentWidth, barHeight);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(xOffset, y, segmentWidth, barHeight);
+        
+        if (segmentWidth > 50) {
+          ctx.fillStyle = contrastTextColor(color);
+          
+          ctx.font = '12px Arial';
+          const truncatedName = payout.name.length > 15 ?
+            payout.name.substring(0, 12) + '...' : payout.name;
+          const textWidth = ctx.measureText(truncatedName).width;
+          if (textWidth < segmentWidth - 10) {
+            ctx.fillText(truncatedName, xOffset + (segmentWidth / 2) - (textWidth / 2), y + barHeight / 2);
+          }
+          
+          // Show the dollar amount taken home rather than ownership
+          ctx.font = '10px Arial';
+          const amountText = `$${(payout.total / 1000000).toFixed(1)}M`;
+          const amountWidth = ctx.measureText(amountText).width;
+          if (amountWidth < segmentWidth - 10) {
+            ctx.fillText(amountText, xOffset + (segmentWidth / 2) - (amountWidth / 2), y + barHeight / 2 + 15);
+          }
+        }
+        
+        xOffset += segmentWidth;
+      });
+  });
+  
+  return ctx.layout();
+}
+
+/**
+ * Generate a visualization of how sale proceeds are split at different exit values
+ * @param waterfalls Exit waterfalls to compare, one bar each
+ * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+ * @param width Width of the output image (default: 1600px)
+ * @param format Output format (defaults to the file extension)
+ */
+export function plotExitWaterfall(
+  waterfalls: ExitWaterfall[],
+  outputPath: string = 'exit-waterfall.png',
+  width: number = 1600,
+  format?: ChartFormat
+): void {
+  saveChart(layoutExitWaterfall(waterfalls, width), outputPath, format);
+  console.log(`Exit waterfall visualization saved to ${outputPath}`);
+}
+
+/**
+ * Percentage of each charted holder in every snapshot, in order of first appearance
+ */
+export function ownershipSeries(history: EquitySnapshot[]): { name: string; color: string; values: number[] }[] {
+  const getEntityColor = createEntityColorResolver();
+  const series: { name: string; color: string; values: number[] }[] = [];
+  
+  history.forEach((snapshot, i) => {
+    chartEntries(snapshot).forEach(entry => {
+      let s = series.find(item => item.name === entry.name);
+      if (!s) {
+        s = { name: entry.name, color: getEntityColor(entry.name, entry.type, entry.role), values: history.map(() => 0) };
+        series.push(s);
+      }
+      s.values[i] = entry.percentage;
+    });
+  });
+  
+  return series;
+}
+
+/**
+ * Draw a color key, one holder per line
+ */
+function drawKey(ctx: ChartRecorder, items: { name: string; color: string }[], x: number, y: number): void {
+  items.forEach((item, i) => {
+    ctx.fillStyle = item.color;
+    ctx.fillRect(x, y + i * 22, 14, 14);
+    ctx.font = '12px Arial';
+    ctx.fillStyle = '#34495e';
+    const displayName = item.name.length > 22 ? item.name.substring(0, 19) + '...' : item.name;
+    ctx.fillText(displayName, x + 20, y + i * 22 + 11);
+  });
+}
+
+/**
+ * Lay out each holder's ownership percentage across every snapshot
+ * @param history Array of equity snapshots
+ * @param width Width of the output image (default: 1600px)
+ * @param mode 'area' stacks holders to 100%, 'line' draws one line per holder
+ */
+export function layoutOwnershipOverTime(
+  history: EquitySnapshot[],
+  width: number = 1600,
+  mode: 'line' | 'area' = 'area'
+): ChartLayout {
+  const baseWidth = width / 2;
+  const series = ownershipSeries(history);
+  
+  const left = 50;
+  const top = 60;
+  const plotWidth = baseWidth - left - 200; // Key on the right
+  const plotHeight = 300;
+  const keyTop = top + plotHeight + 40;
+  const height = keyTop + history.length * 18 + 20;
+  
+  const ctx = new ChartRecorder(baseWidth, height);
+  
+  ctx.fillStyle = '#fcfcfc';
+  ctx.fillRect(0, 0, baseWidth, height);
+  
+  ctx.font = 'bold 22px Arial';
+  ctx.fillStyle = '#34495e';
+  ctx.fillText('Ownership Over Time', 20, 30);
+  
+  const xAt = (i: number) => left + (history.length > 1 ? (i / (history.length - 1)) * plotWidth : plotWidth / 2);
+  const yAt = (percent: number) => top + plotHeight - (percent / 100) * plotHeight;
+  
+  // Grid lines every 25%
+  [0, 25, 50, 75, 100].forEach(percent => {
+    ctx.strokeStyle = '#dfe4e8';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(left, yAt(percent));
+    ctx.lineTo(left + plotWidth, yAt(percent));
+    ctx.stroke();
+    
+    ctx.font = '10px Arial';
+    ctx.fillStyle = '#7f8c8d';
+    ctx.fillText(`${percent}%`, left - 35, yAt(percent) + 4);
+  });
+  
+  if (mode === 'area') {
+    // Stack holders bottom-up; each band runs along the running total
+    const base = history.map(() => 0);
+    series.forEach(s => {
+      const topEdge = s.values.map((v, i) => base[i] + v);
+      ctx.fillStyle = s.color;
+      ctx.beginPath();
+      topEdge.forEach((v, i) => (i === 0 ? ctx.moveTo(xAt(i), yAt(v)) : ctx.lineTo(xAt(i), yAt(v))));
+      for (let i = history.length - 1; i >= 0; i--) {
+        ctx.lineTo(xAt(i), yAt(base[i]));
+      }
+      ctx.fill();
+      topEdge.forEach((v, i) => { base[i] = v; });
+    });
+  } else {
+    series.forEach(s => {
+      ctx.strokeStyle = s.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      s.values.forEach((v, i) => (i === 0 ? ctx.moveTo(xAt(i), yAt(v)) : ctx.lineTo(xAt(i), yAt(v))));
+      ctx.stroke();
+    });
+  }
+  
+  // Number each event on the x axis and list the labels underneath
+  history.forEach((snapshot, i) => {
+    ctx.font = '10px Arial';
+    ctx.fillStyle = '#7f8c8d';
+    const tick = `${i + 1}`;
+    ctx.fillText(tick, xAt(i) - ctx.measureText(tick).width / 2, top + plotHeight + 16);
+    
+    ctx.font = '12px Arial';
+    ctx.fillStyle = '#34495e';
+    ctx.fillText(`${i + 1}. ${snapshot.label}`, left, keyTop + i * 18);
+  });
+  
+  drawKey(ctx, series, left + plotWidth + 30, top);
+  
+  return ctx.layout();
+}
+
+/**
+ * Generate a line or stacked-area chart of each holder's ownership over time
+ * @param history Array of equity snapshots
+ * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+ * @param width Width of the output image (default: 1600px)
+ * @param mode 'area' (stacked) or 'line'
+ * @param format Output format (defaults to the file extension)
+ */
+export function plotOwnershipOverTime(
+  history: EquitySnapshot[],
+  outputPath: string = 'ownership-over-time.png',
+  width: number = 1600,
+  mode: 'line' | 'area' = 'area',
+  format?: ChartFormat
+): void {
+  saveChart(layoutOwnershipOverTime(history, width, mode), outputPath, format);
+  console.log(`Ownership over time visualization saved to ${outputPath}`);
+}
+
+/**
+ * Lay out a grid of pie (or donut) charts, one per snapshot
+ * @param history Array of equity snapshots
+ * @param width Width of the output image (default: 1600px)
+ * @param donut Draw donuts with the founders' combined share in the middle
+ * @param columns Charts per row
+ */
+export function layoutOwnershipPies(
+  history: EquitySnapshot[],
+  width: number = 1600,
+  donut: boolean = false,
+  columns: number = 3
+): ChartLayout {
+  const baseWidth = width / 2;
+  const series = ownershipSeries(history);
+  const colorOf = new Map(series.map(s => [s.name, s.color]));
+  
+  const margin = 20;
+  const top = 50;
+  const cellWidth = (baseWidth - margin * 2) / columns;
+  const cellHeight = cellWidth + 30; // Room for the title above each chart
+  const rows = Math.ceil(history.length / columns);
+  const keyTop = top + rows * cellHeight + 10;
+  const keyColumns = 3;
+  const height = keyTop + Math.ceil(series.length / keyColumns) * 22 + 20;
+  
+  const ctx = new ChartRecorder(baseWidth, height);
+  
+  ctx.fillStyle = '#fcfcfc';
+  ctx.fillRect(0, 0, baseWidth, height);
+  
+  ctx.font = 'bold 22px Arial';
+  ctx.fillStyle = '#34495e';
+  ctx.fillText('Ownership by Event', 20, 30);
+  
+  history.forEach((snapshot, index) => {
+    const cellX = margin + (index % columns) * cellWidth;
+    const cellY = top + Math.floor(index / columns) * cellHeight;
+    const radius = cellWidth * 0.38;
+    const cx = cellX + cellWidth / 2;
+    const cy = cellY + 30 + cellWidth / 2;
+    
+    // Title, shortened to fit the cell
+    ctx.font = 'bold 11px Arial';
+    ctx.fillStyle = '#34495e';
+    let title = `${index + 1}. ${snapshot.label}`;
+    while (title.length > 4 && ctx.measureText(title).width > cellWidth - 10) {
+      title = title.substring(0, title.length - 4) + '...';
+    }
+    ctx.fillText(title, cellX + 5, cellY + 16);
+    
+    // Slices clockwise from 12 o'clock, in the same order as the bar chart
+    let angle = -Math.PI / 2;
+    chartEntries(snapshot).forEach(entry => {
+      const sweep = (entry.percentage / 100) * Math.PI * 2;
+      if (sweep <= 0) return;
+      const color = colorOf.get(entry.name)!;
+      
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy);
+      ctx.arc(cx, cy, radius, angle, angle + sweep);
+      ctx.fill();
+      
+      // Label slices big enough to hold a percentage
+      if (entry.percentage >= 5) {
+        const mid = angle + sweep / 2;
+        const labelRadius = donut ? radius * 0.78 : radius * 0.62;
+        const text = `${entry.percentage.toFixed(1)}%`;
+        ctx.font = '10px Arial';
+        ctx.fillStyle = contrastTextColor(color);
+        ctx.fillText(
+          text,
+          cx + labelRadius * Math.cos(mid) - ctx.measureText(text).width / 2,
+          cy + labelRadius * Math.sin(mid) + 4
+        );
+      }
+      angle += sweep;
+    });
+    
+    if (donut) {
+      ctx.fillStyle = '#fcfcfc';
+      ctx.beginPath();
+      ctx.moveTo(cx + radius * 0.55, cy);
+      ctx.arc(cx, cy, radius * 0.55, 0, Math.PI * 2);
+      ctx.fill();
+      
+      const founders = chartEntries(snapshot).find(entry => entry.name === 'Founders');
+      if (founders) {
+        const text = `${founders.percentage.toFixed(1)}%`;
+        ctx.font = 'bold 14px Arial';
+        ctx.fillStyle = COLORS.founder1;
+        ctx.fillText(text, cx - ctx.measureText(text).width / 2, cy + 2);
+        ctx.font = '10px Arial';
+        ctx.fillStyle = '#7f8c8d';
+        ctx.fillText('founders', cx - ctx.measureText('founders').width / 2, cy + 16);
+      }
+    }
+  });
+  
+  // Key across the bottom, in columns
+  const keyColumnWidth = (baseWidth - margin * 2) / keyColumns;
+  const perColumn = Math.ceil(series.length / keyColumns);
+  for (let c = 0; c < keyColumns; c++) {
+    drawKey(ctx, series.slice(c * perColumn, (c + 1) * perColumn), margin + c * keyColumnWidth, keyTop);
+  }
+  
+  return ctx.layout();
+}
+
+/**
+ * Generate a grid of pie or donut charts, one per snapshot
+ * @param history Array of equity snapshots
+ * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+ * @param width Width of the output image (default: 1600px)
+ * @param donut Draw donuts with the founders' combined share in the middle
+ * @param format Output format (defaults to the file extension)
+ */
+export function plotOwnershipPies(
+  history: EquitySnapshot[],
+  outputPath: string = 'ownership-pies.png',
+  width: number = 1600,
+  donut: boolean = false,
+  format?: ChartFormat
+): void {
+  saveChart(layoutOwnershipPies(history, width, donut), outputPath, format);
+  console.log(`Ownership pie charts saved to ${outputPath}`);
+}
+
+/**
+ * Lay out the control chart: for each snapshot, bars for the stockholder vote and the common
+ * vote split by holder (founders combined), and the board split by who elects each seat
+ * @param history Array of equity snapshots
+ * @param width Width of the output image (default: 1600px)
+ */
+export function layoutControl(history: EquitySnapshot[], width: number = 1600): ChartLayout {
+  const baseWidth = width / 2;
+  const getEntityColor = createEntityColorResolver();
+  const uncontrolled = '#bdc3c7';
+  const analyses = history.map(snapshot => analyzeVoting(snapshot, []));
+  
+  const left = 110;
+  const top = 50;
+  const barWidth = baseWidth - left - 30;
+  const barHeight = 14;
+  const blockHeight = 20 + 3 * (barHeight + 6) + 10;
+  const keyTop = top + history.length * blockHeight + 10;
+  const key = new Map<string, string>();
+  
+  // Founders share one segment, as in the other charts; everyone else keeps their own
+  const colorOf = (name: string, role: StakeholderRole, type: ShareType) => {
+    const label = role === 'founder' || name === 'founders' ? 'Founders' : name;
+    const color = label === 'Founders' ? COLORS.founder1 : getEntityColor(label, type, role);
+    key.set(label, color);
+    return { label, color };
+  };
+  const holderColor = (h: HolderVotes) => colorOf(h.name, h.role, h.preferredPercentage > 0 ? 'preferred' : 'common');
+  // Seats take the color of the holder, or role group, that elects them
+  const seatColor = (analysis: VotingAnalysis, controlledBy?: string) => {
+    if (!controlledBy) return uncontrolled;
+    const holder = analysis.holders.find(h => h.name === controlledBy);
+    return holder ? holderColor(holder).color : colorOf(controlledBy, 'fund', 'preferred').color;
+  };
+  // Register every color up front so the key can be sized
+  analyses.forEach(a => {
+    a.holders.forEach(holderColor);
+    a.board.forEach(seat => seatColor(a, seat.controlledBy));
+  });
+  const keyColumns = 3;
+  const height = keyTop + Math.ceil((key.size + 1) / keyColumns) * 22 + 20;
+  
+  const ctx = new ChartRecorder(baseWidth, height);
+  
+  ctx.fillStyle = '#fcfcfc';
+  ctx.fillRect(0, 0, baseWidth, height);
+  
+  ctx.font = 'bold 22px Arial';
+  ctx.fillStyle = '#34495e';
+  ctx.fillText('Voting Control by Event', 20, 30);
+  
+  const drawBar = (y: number, title: string, segments: { color: string; value: number; text?: string }[], total: number) => {
+    ctx.font = '11px Arial';
+    ctx.fillStyle = '#34495e';
+    ctx.fillText(title, 20, y + barHeight - 3);
+    let x = left;
+    segments.forEach(segment => {
+      const w = total > 0 ? (segment.value / total) * barWidth : 0;
+      if (w <= 0) return;
+      ctx.fillStyle = segment.color;
+      ctx.fillRect(x, y, w, barHeight);
+      const text = segment.text ?? `${((segment.value / total) * 100).toFixed(0)}%`;
+      ctx.font = '9px Arial';
+      if (ctx.measureText(text).width < w - 4) {
+        ctx.fillStyle = contrastTextColor(segment.color);
+        ctx.fillText(text, x + (w - ctx.measureText(text).width) / 2, y + barHeight - 4);
+      }
+      x += w;
+    });
+    if (total === 0) {
+      ctx.strokeStyle = uncontrolled;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(left, y, barWidth, barHeight);
+    }
+  };
+  
+  analyses.forEach((analysis, i) => {
+    const y = top + i * blockHeight;
+    ctx.font = 'bold 12px Arial';
+    ctx.fillStyle = '#34495e';
+    ctx.fillText(`${i + 1}. ${analysis.label}`, 20, y + 12);
+    
+    // Holders with their share of each vote, founders merged into one segment
+    const votes = (pick: (h: HolderVotes) => number) => {
+      const segments = new Map<string, { color: string; value: number }>();
+      analysis.holders.forEach(h => {
+        const { label, color } = holderColor(h);
+        const segment = segments.get(label) ?? { color, value: 0 };
+        segment.value += pick(h);
+        segments.set(label, segment);
+      });
+      return [...segments.values()];
+    };
+    const allY = y + 20;
+    const commonY = allY + barHeight + 6;
+    const boardY = commonY + barHeight + 6;
+    drawBar(allY, 'All votes', votes(h => h.percentage), 100);
+    drawBar(commonY, 'Common vote', votes(h => h.commonPercentage), 100);
+    
+    // One segment per group of seats
+    drawBar(boardY, 'Board', analysis.board.map(seat => ({
+      color: seatColor(analysis, seat.controlledBy),
+      value: seat.seats,
+      text: `${seat.seats}`
+    })), analysis.boardSeats);
+    
+    // Majority line across the three bars
+    ctx.strokeStyle = '#34495e';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(left + barWidth / 2, allY - 3);
+    ctx.lineTo(left + barWidth / 2, boardY + barHeight + 3);
+    ctx.stroke();
+  });
+  
+  // Key across the bottom, in columns
+  const items = [...key].map(([name, color]) => ({ name, color }));
+  items.push({ name: 'No single controller', color: uncontrolled });
+  const keyColumnWidth = (baseWidth - 40) / keyColumns;
+  const perColumn = Math.ceil(items.length / keyColumns);
+  for (let c = 0; c < keyColumns; c++) {
+    drawKey(ctx, items.slice(c * perColumn, (c + 1) * perColumn), 20 + c * keyColumnWidth, keyTop);
+  }
+  
+  return ctx.layout();
+}
+
+/**
+ * Generate a chart of who controls the stockholder vote, the common vote and the board after each event
+ * @param history Array of equity snapshots
+ * @param outputPath File path to save the visualization (.png, .svg or .pdf)
+ * @param width Width of the output image (default: 1600px)
+ * @param format Output format (defaults to the file extension)
+ */
+export function plotControl(
+  history: EquitySnapshot[],
+  outputPath: string = 'control.png',
+  width: number = 1600,
+  format?: ChartFormat
+): void {
+  saveChart(layoutControl(history, width), outputPath, format);
+  console.log(`Voting control visualization saved to ${outputPath}`);
+}
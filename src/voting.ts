@@ -0,0 +1,213 @@
+import {
+  ClassVotes, Electorate, EquitySnapshot, HolderVotes, ProtectiveProvision, ShareClass, VoteControl, VotingAnalysis
+} from './types.js';
+
+type SnapshotEntry = EquitySnapshot['entries'][number];
+
+// Votes checked when no provisions are given: the approvals a typical venture-backed company needs
+export const DEFAULT_PROVISIONS: ProtectiveProvision[] = [
+  { name: 'Majority of preferred', electorate: 'preferred', percent: 50 },
+  { name: 'Majority of common', electorate: 'common', percent: 50 },
+  { name: 'Majority of all stockholders', electorate: 'all', percent: 50 }
+];
+
+/**
+ * Votes carried by one share of a class: its votesPerShare when set, otherwise one for common
+ * and one per common share converted into for preferred. Options and warrants do not vote.
+ * @param shareClass Share class
+ */
+export function votesPerShare(shareClass: ShareClass): number {
+  if (shareClass.type === 'option' || shareClass.type === 'warrant') return 0;
+  return shareClass.votesPerShare ?? (shareClass.type === 'preferred' ? shareClass.conversionRatio : 1);
+}
+
+/**
+ * Who an electorate is, in words (e.g. "common", "Series A Preferred")
+ */
+export const describeElectorate = (electorate: Electorate): string =>
+  typeof electorate === 'string' ? (electorate === 'all' ? 'all stockholders' : electorate) : electorate.shareClass;
+
+/**
+ * Whether a class belongs to a series, counting its shadow series (e.g. "Series A-1 Preferred" in "Series A Preferred")
+ */
+function inSeries(className: string, series: string): boolean {
+  if (className === series) return true;
+  const base = series.replace(/ Preferred$/, '');
+  const suffix = base === series ? '' : ' Preferred';
+  return className.startsWith(`${base}-`) && className.endsWith(suffix) &&
+    /^\d+$/.test(className.slice(base.length + 1, className.length - suffix.length));
+}
+
+const inElectorate = (entry: SnapshotEntry, electorate: Electorate): boolean => {
+  if (electorate === 'common') return entry.type === 'common';
+  if (electorate === 'preferred') return entry.type === 'preferred';
+  if (electorate === 'all') return entry.type === 'common' || entry.type === 'preferred';
+  return inSeries(entry.shareClass, electorate.shareClass);
+};
+
+/**
+ * Votes cast by one holding: as converted for preferred unless its class sets votes per share
+ */
+function entryVotes(entry: SnapshotEntry, snapshot: EquitySnapshot): number {
+  if (entry.type === 'option' || entry.type === 'warrant') return 0;
+  const shareClass = snapshot.shareClasses.find(c => c.name === entry.shareClass);
+  if (shareClass?.votesPerShare !== undefined) return entry.shares * shareClass.votesPerShare;
+  return entry.type === 'preferred' ? entry.asConvertedShares : entry.shares;
+}
+
+/**
+ * Find who decides a vote: a single holder with more than the threshold, or failing that a role group
+ * (e.g. the founders together), and which holders can block it alone
+ * @param snapshot Cap table snapshot
+ * @param electorate Who votes
+ * @param percent Share of the votes that must be exceeded
+ */
+export function voteControl(snapshot: EquitySnapshot, electorate: Electorate, percent: number): VoteControl {
+  const byHolder = new Map<string, number>();
+  snapshot.entries
+    .filter(entry => inElectorate(entry, electorate))
+    .forEach(entry => byHolder.set(entry.holderId, (byHolder.get(entry.holderId) ?? 0) + entryVotes(entry, snapshot)));
+  const totalVotes = [...byHolder.values()].reduce((sum, v) => sum + v, 0);
+  if (totalVotes === 0) {
+    return { totalVotes, group: false, blockers: [] };
+  }
+  const share = (votes: number) => (votes / totalVotes) * 100;
+  const holder = (id: string) => snapshot.stakeholders.find(h => h.id === id);
+
+  const blockers = [...byHolder]
+    .filter(([, votes]) => share(votes) >= 100 - percent)
+    .map(([id]) => holder(id)?.name ?? id);
+  const single = [...byHolder].find(([, votes]) => share(votes) > percent);
+  if (single) {
+    return { totalVotes, controlledBy: holder(single[0])?.name ?? single[0], group: false, blockers };
+  }
+  const byRole = new Map<string, number>();
+  byHolder.forEach((votes, id) => {
+    const role = holder(id)?.role ?? 'fund';
+    byRole.set(role, (byRole.get(role) ?? 0) + votes);
+  });
+  const group = [...byRole].find(([, votes]) => share(votes) > percent);
+  return { totalVotes, controlledBy: group ? `${group[0]}s` : undefined, group: group !== undefined, blockers };
+}
+
+/**
+ * Voting power after one event: votes by class and holder, who elects each board seat,
+ * whether the founders still control the common vote and the board, and who controls
+ * each protective provision
+ * @param snapshot Cap table snapshot
+ * @param provisions Votes to check (defaults to majorities of the preferred, the common and everyone)
+ */
+export function analyzeVoting(snapshot: EquitySnapshot, provisions: ProtectiveProvision[] = DEFAULT_PROVISIONS): VotingAnalysis {
+  const percent = (votes: number, total: number) => (total > 0 ? (votes / total) * 100 : 0);
+  const votesOf = (filter: (entry: SnapshotEntry) => boolean) =>
+    snapshot.entries.filter(filter).reduce((sum, entry) => sum + entryVotes(entry, snapshot), 0);
+
+  const classes: ClassVotes[] = snapshot.shareClasses
+    .map(c => {
+      const entries = snapshot.entries.filter(entry => entry.shareClass === c.name);
+      return {
+        shareClass: c.name,
+        type: c.type,
+        votesPerShare: votesPerShare(c),
+        shares: entries.reduce((sum, entry) => sum + entry.shares, 0),
+        votes: entries.reduce((sum, entry) => sum + entryVotes(entry, snapshot), 0)
+      };
+    })
+    .filter(c => c.shares > 0);
+
+  const commonVotes = votesOf(entry => entry.type === 'common');
+  const preferredVotes = votesOf(entry => entry.type === 'preferred');
+  const totalVotes = commonVotes + preferredVotes;
+
+  const holders: HolderVotes[] = snapshot.stakeholders
+    .map(h => {
+      const own = (entry: SnapshotEntry) => entry.holderId === h.id;
+      const common = votesOf(entry => own(entry) && entry.type === 'common');
+      const preferred = votesOf(entry => own(entry) && entry.type === 'preferred');
+      return {
+        holderId: h.id,
+        name: h.name,
+        role: h.role,
+        votes: common + preferred,
+        percentage: percent(common + preferred, totalVotes),
+        commonPercentage: percent(common, commonVotes),
+        preferredPercentage: percent(preferred, preferredVotes)
+      };
+    })
+    .filter(h => h.votes > 0)
+    .sort((a, b) => b.votes - a.votes);
+
+  // Each group of seats goes to whoever holds a majority of its electorate
+  const board = (snapshot.board ?? []).map(seat => ({ ...seat, ...voteControl(snapshot, seat.electorate, 50) }));
+  const boardSeats = board.reduce((sum, seat) => sum + seat.seats, 0);
+  const founderNames = snapshot.stakeholders.filter(h => h.role === 'founder').map(h => h.name);
+  const founderSeats = board
+    .filter(seat => seat.controlledBy === 'founders' || founderNames.includes(seat.controlledBy ?? ''))
+    .reduce((sum, seat) => sum + seat.seats, 0);
+  const founders = holders.filter(h => h.role === 'founder');
+  const founderCommon = founders.reduce((sum, h) => sum + h.commonPercentage, 0);
+
+  return {
+    label: snapshot.label,
+    date: snapshot.date,
+    classes,
+    holders,
+    totalVotes,
+    commonVotes,
+    preferredVotes,
+    board,
+    boardSeats,
+    founders: {
+      percentage: founders.reduce((sum, h) => sum + h.percentage, 0),
+      commonPercentage: founderCommon,
+      boardSeats: founderSeats,
+      controlsCommon: founderCommon > 50,
+      controlsBoard: founderSeats > boardSeats / 2
+    },
+    provisions: provisions.map(p => ({ ...p, ...voteControl(snapshot, p.electorate, p.percent) }))
+  };
+}
+
+/**
+ * Describe a voting analysis as text, one holder, class, seat group and provision per line
+ * @param analysis Voting analysis of one snapshot
+ */
+export function formatVoting(analysis: VotingAnalysis): string {
+  const pct = (value: number) => `${value.toFixed(2)}%`;
+  const control = (c: VoteControl) => {
+    if (c.totalVotes === 0) return 'no votes outstanding';
+    const by = c.controlledBy ? `controlled by ${c.controlledBy}${c.group ? ' together' : ''}` : 'no single holder or group in control';
+    return c.blockers.length > 0 ? `${by}; can be blocked by ${c.blockers.join(', ')}` : by;
+  };
+
+  const lines: string[] = [`Voting (${analysis.label}):`];
+  analysis.holders.forEach(h => {
+    const preferred = h.preferredPercentage > 0 ? `, ${pct(h.preferredPercentage)} of preferred` : '';
+    lines.push(`${h.name}: ${h.votes.toLocaleString()} votes (${pct(h.percentage)} of all, ${pct(h.commonPercentage)} of common${preferred})`);
+  });
+  lines.push(`Total votes: ${analysis.totalVotes.toLocaleString()} (common ${analysis.commonVotes.toLocaleString()}, preferred ${analysis.preferredVotes.toLocaleString()})`);
+
+  lines.push('\nVotes by Class:');
+  analysis.classes.forEach(c => {
+    lines.push(`${c.shareClass}: ${c.shares.toLocaleString()} shares x ${c.votesPerShare.toFixed(4)} = ${c.votes.toLocaleString()} votes`);
+  });
+
+  if (analysis.board.length > 0) {
+    lines.push(`\nBoard (${analysis.boardSeats} seats):`);
+    analysis.board.forEach(seat => {
+      lines.push(`${seat.seats} elected by ${describeElectorate(seat.electorate)}: ${control(seat)}`);
+    });
+  }
+
+  const f = analysis.founders;
+  lines.push(`\nFounders: ${pct(f.percentage)} of all votes, ${pct(f.commonPercentage)} of common, ${f.boardSeats} of ${analysis.boardSeats} board seats` +
+    ` (${f.controlsCommon ? 'control' : 'do not control'} the common vote, ${f.controlsBoard ? 'control' : 'do not control'} the board)`);
+
+  if (analysis.provisions.length > 0) {
+    lines.push('\nProtective Provisions:');
+    analysis.provisions.forEach(p => {
+      lines.push(`${p.name} (over ${p.percent}% of ${describeElectorate(p.electorate)}): ${control(p)}`);
+    });
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,266 @@
+import { EquitySnapshot, ExitOptions, ExitPayout, ExitWaterfall, LiquidationPreference, SafeClaim, ShareClass, ShareType, StakeholderRole } from './types.js';
+
+// Standard 1x non-participating, pari passu preference
+export const DEFAULT_PREFERENCE: LiquidationPreference = {
+  multiple: 1,
+  participating: false,
+  seniority: 0,
+};
+
+// Share class name under which outstanding SAFEs appear in a waterfall
+export const SAFE_CLASS = 'SAFE';
+
+interface Holder {
+  name: string;
+  type: ShareType;
+  shareClass: string;
+  holderId: string;
+  role: StakeholderRole;
+  shares: number;          // As-converted common shares
+  invested: number;
+  purchasePrice: number;   // Basis for the preference and participation cap
+  terms?: LiquidationPreference; // Only set for preferred holders
+  exercisePrice: number;   // Per share, for a tranche of options or warrants (0 otherwise)
+  row: number;             // Payout row the holder's proceeds are reported under
+}
+
+interface Distribution {
+  preference: number[];
+  participation: number[];
+  undistributed: number;
+}
+
+// Tolerance for floating-point comparisons on dollar amounts
+const EPSILON = 1e-6;
+
+/**
+ * Pay out the preference stack and share the residual for a fixed set of converting holders
+ */
+function distribute(holders: Holder[], saleValue: number, converted: Set<number>): Distribution {
+  const preference = holders.map(() => 0);
+  const participation = holders.map(() => 0);
+  let remaining = saleValue;
+
+  // Pay preferences tier by tier, most senior first, pro rata within a tier
+  const seniorities = Array.from(new Set(
+    holders.filter((h, i) => h.terms && !converted.has(i)).map(h => h.terms!.seniority)
+  )).sort((a, b) => b - a);
+
+  seniorities.forEach(seniority => {
+    const tier = holders
+      .map((h, i) => ({ h, i }))
+      .filter(({ h, i }) => h.terms && !converted.has(i) && h.terms.seniority === seniority);
+    const claims = tier.map(({ h }) => h.terms!.multiple * h.purchasePrice);
+    const tierTotal = claims.reduce((sum, c) => sum + c, 0);
+    if (tierTotal <= 0) return;
+
+    const paid = Math.min(remaining, tierTotal);
+    tier.forEach(({ i }, k) => {
+      preference[i] = (claims[k] / tierTotal) * paid;
+    });
+    remaining -= paid;
+  });
+
+  // Everyone holding common, as-converted or participating preferred shares the residual
+  const participants = holders
+    .map((h, i) => i)
+    .filter(i => !holders[i].terms || converted.has(i) || holders[i].terms!.participating);
+
+  // Participating holders with a cap drop out once they reach it and the excess is reshared
+  const headroom = (i: number): number => {
+    const terms = holders[i].terms;
+    if (!terms || converted.has(i) || terms.participationCap === undefined) return Infinity;
+    return Math.max(0, terms.participationCap * holders[i].purchasePrice - preference[i]);
+  };
+
+  let open = participants.filter(i => headroom(i) > EPSILON);
+  while (remaining > EPSILON && open.length > 0) {
+    const openShares = open.reduce((sum, i) => sum + holders[i].shares, 0);
+    if (openShares <= 0) break;
+
+    const capped: number[] = [];
+    let paidThisPass = 0;
+    open.forEach(i => {
+      const room = headroom(i) - participation[i];
+      const share = (holders[i].shares / openShares) * remaining;
+      const paid = Math.min(share, room);
+      participation[i] += paid;
+      paidThisPass += paid;
+      if (room - paid <= EPSILON) capped.push(i);
+    });
+
+    remaining -= paidThisPass;
+    if (capped.length === 0) break;
+    open = open.filter(i => !capped.includes(i));
+  }
+
+  return { preference, participation, undistributed: Math.max(0, remaining) };
+}
+
+const payoutOf = (d: Distribution, i: number): number => d.preference[i] + d.participation[i];
+
+/**
+ * Distribute proceeds with preferred holders converting to common when it pays more than their preference.
+ * Uncapped participating preferred never gains from converting, so it is skipped.
+ */
+function settle(holders: Holder[], proceeds: number): { current: Distribution; converted: Set<number> } {
+  const converted = new Set<number>();
+  let current = distribute(holders, proceeds, converted);
+  for (;;) {
+    let best = -1;
+    let bestGain = EPSILON;
+    let bestDistribution = current;
+
+    holders.forEach((h, i) => {
+      if (!h.terms || converted.has(i)) return;
+      if (h.terms.participating && h.terms.participationCap === undefined) return;
+
+      const trial = distribute(holders, proceeds, new Set([...converted, i]));
+      const gain = payoutOf(trial, i) - payoutOf(current, i);
+      if (gain > bestGain) {
+        best = i;
+        bestGain = gain;
+        bestDistribution = trial;
+      }
+    });
+
+    if (best < 0) break;
+    converted.add(best);
+    current = bestDistribution;
+  }
+  return { current, converted };
+}
+
+/**
+ * Distribute sale proceeds across the holders of a cap table snapshot
+ * @param snapshot Cap table to distribute over
+ * @param saleValue Net proceeds available to equity holders
+ * @param options Liquidation preference terms and pool treatment
+ * @param safes Outstanding SAFEs; their payouts follow the cap table holders', in the same order
+ */
+export function computeExitWaterfall(
+  snapshot: EquitySnapshot,
+  saleValue: number,
+  options: ExitOptions = {},
+  safes: SafeClaim[] = []
+): ExitWaterfall {
+  const { defaultPreference = {}, preferences = {}, includeUnallocatedOptions = false } = options;
+
+  const classes = new Map<string, ShareClass>(snapshot.shareClasses.map(c => [c.name, c]));
+
+  const rows = snapshot.entries
+    // Granted options share as if exercised; the unallocated pool only if asked to
+    .filter(e => includeUnallocatedOptions || e.type !== 'option' || e.pool !== undefined);
+  const holders: Holder[] = rows
+    .flatMap((e, row) => {
+      const shareClass = classes.get(e.shareClass);
+      // Fall back to the capital paid in when the class has no issue price
+      const purchasePrice = shareClass && shareClass.originalIssuePrice > 0
+        ? shareClass.originalIssuePrice * e.shares
+        : e.invested ?? 0;
+      const classTerms: Partial<LiquidationPreference> = shareClass ? {
+        multiple: shareClass.liquidationMultiple,
+        participating: shareClass.participating,
+        participationCap: shareClass.participationCap,
+        seniority: shareClass.seniority,
+      } : {};
+
+      const holder: Holder = {
+        name: e.name,
+        type: e.type,
+        shareClass: e.shareClass,
+        holderId: e.holderId,
+        role: e.role,
+        shares: e.asConvertedShares,
+        invested: e.invested ?? 0,
+        purchasePrice,
+        exercisePrice: 0,
+        row,
+        terms: e.type === 'preferred'
+          ? {
+            ...DEFAULT_PREFERENCE,
+            ...classTerms,
+            ...defaultPreference,
+            ...preferences[e.shareClass],
+            ...preferences[e.name],
+          }
+          : undefined,
+      };
+      // Options and warrants exercise tranche by tranche, each at its own price
+      return e.tranches && e.tranches.length > 0
+        ? e.tranches.map(t => ({ ...holder, shares: t.shares, exercisePrice: t.exercisePrice }))
+        : [holder];
+    });
+
+  // SAFEs are owed their purchase amount pari passu with the most junior preferred, ahead of
+  // common. Where they have shares to convert into, the greedy pass below takes the greater.
+  safes.forEach((safe, k) => {
+    holders.push({
+      name: `${safe.name} (SAFE)`,
+      type: 'preferred',
+      shareClass: SAFE_CLASS,
+      holderId: safe.holderId,
+      role: safe.role,
+      shares: safe.shares,
+      invested: safe.amount,
+      purchasePrice: safe.amount,
+      terms: { ...DEFAULT_PREFERENCE },
+      exercisePrice: 0,
+      row: rows.length + k,
+    });
+  });
+
+  // Options and warrants exercise only when in the money. Their exercise price is paid in and
+  // shared like the rest of the proceeds, then netted off their own share. Dropping a tranche
+  // that is underwater can push others under, so repeat until every remaining one is in the money.
+  let active = holders;
+  let settled: ReturnType<typeof settle>;
+  for (;;) {
+    const exerciseCost = active.reduce((sum, h) => sum + h.exercisePrice * h.shares, 0);
+    settled = settle(active, saleValue + exerciseCost);
+    const { participation } = settled.current;
+    const underwater = active.filter((h, i) =>
+      h.exercisePrice > 0 && participation[i] <= h.exercisePrice * h.shares + EPSILON);
+    if (underwater.length === 0) break;
+    active = active.filter(h => !underwater.includes(h));
+  }
+  const { current, converted } = settled;
+
+  // Report one payout per cap table row and SAFE, tranches added back together
+  const payouts: ExitPayout[] = [...rows.map(e => e.name), ...safes.map(safe => `${safe.name} (SAFE)`)].map((name, row) => {
+    const first = holders.find(h => h.row === row)!;
+    const payout: ExitPayout = {
+      name,
+      type: first.type,
+      shareClass: first.shareClass,
+      holderId: first.holderId,
+      role: first.role,
+      shares: 0,
+      invested: first.invested,
+      preference: 0,
+      participation: 0,
+      exerciseCost: 0,
+      total: 0,
+      percentage: 0,
+      converted: false,
+    };
+    active.forEach((h, i) => {
+      if (h.row !== row) return;
+      payout.shares += h.shares;
+      payout.preference += current.preference[i];
+      payout.participation += current.participation[i];
+      payout.exerciseCost += h.exercisePrice * h.shares;
+      payout.converted = payout.converted || converted.has(i);
+    });
+    payout.total = payout.preference + payout.participation - payout.exerciseCost;
+    payout.percentage = saleValue > 0 ? (payout.total / saleValue) * 100 : 0;
+    return payout;
+  });
+
+  return {
+    label: options.label ?? `Exit at $${(saleValue/1000000).toFixed(1)}M`,
+    saleValue,
+    payouts,
+    undistributed: current.undistributed,
+  };
+}